@@ -19,7 +19,7 @@ function parseArgs(argv: string[]) {
 
 function help() {
   console.log(
-    `@lokat/gen — integer keyspace codegen\n\nUsage (npx):\n  npx @lokat/gen --in ./locales --out ./i18n/generated --locales en,id --ref en\n\nUsage (local dev):\n  bun run src/cli.ts -- --in ./locales --out ./i18n/generated --locales en,id --ref en\n\nOptions:\n  --in       Input directory containing locale JSONs\n  --out      Output directory for generated TS files\n  --locales  Comma-separated locale codes (e.g., en,id)\n  --ref      Reference locale for key order (e.g., en)\n`,
+    `@lokat/gen — integer keyspace codegen\n\nUsage (npx):\n  npx @lokat/gen --in ./locales --out ./i18n/generated --locales en,id --ref en\n\nUsage (local dev):\n  bun run src/cli.ts -- --in ./locales --out ./i18n/generated --locales en,id --ref en\n\nOptions:\n  --in       Input directory containing locale JSONs\n  --out      Output directory for generated TS files\n  --locales  Comma-separated locale codes (e.g., en,id)\n  --ref      Reference locale for key order (e.g., en)\n  --pseudo   Also emit pseudo-localized arrays of the reference locale under this code (default: en-XA)\n`,
   )
 }
 
@@ -34,6 +34,8 @@ async function main() {
     .map((s) => s.trim())
     .filter(Boolean)
   const refLocale = args.get("ref") || locales[0]
+  const pseudo = args.get("pseudo")
+  const pseudoLocale = pseudo === "true" ? "en-XA" : pseudo
 
   const layout = await loadLayout(inputDir, locales)
   const res = validateAndOrder(layout, refLocale)
@@ -45,7 +47,7 @@ async function main() {
     process.exitCode = 1
   }
 
-  emitAll(outputDir, layout, res, locales)
+  emitAll(outputDir, layout, res, locales, pseudoLocale)
   console.log(`Generated to: ${join(process.cwd(), outputDir)}`)
 }
 
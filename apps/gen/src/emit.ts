@@ -1,6 +1,15 @@
 import { mkdirSync, writeFileSync } from "node:fs"
 import { join } from "node:path"
-import type { GenerateResult, InputLayout, LocaleCode, Namespace } from "./types"
+import {
+  flattenDictionary,
+  hashDictionary,
+  hasMessageFormat,
+  type MessageAst,
+  manifestKey,
+  parseMessage,
+  pseudoDictionary,
+} from "@lokat/core"
+import type { GenerateResult, InputLayout, LocaleCode, LocaleDict, Namespace } from "./types"
 import { names } from "./util"
 
 function emitKeys(outputDir: string, namespaces: Namespace[], orderByNs: Map<Namespace, string[]>) {
@@ -23,6 +32,100 @@ function emitKeys(outputDir: string, namespaces: Namespace[], orderByNs: Map<Nam
   writeFileSync(join(outputDir, "i18n.keys.ts"), lines.join("\n"))
 }
 
+// String-keyed dictionary types for `createLokat<I18nDict>()` / `createSolidLokat<L, I18nDict>()`.
+// Values are literal template types so translators can check `{param}` names per key.
+function emitDictTypes(outputDir: string, layout: InputLayout, res: GenerateResult) {
+  const ref = layout.locales.get(res.refLocale)
+  const lines: string[] = ["// Auto-generated by @lokat/gen", ""]
+  const typeNames: string[] = []
+  for (const ns of res.namespaces) {
+    const dict = ref?.get(ns) || {}
+    const typeName = names.formatDictTypeName(ns)
+    typeNames.push(typeName)
+    lines.push(`export type ${typeName} = {`)
+    for (const k of res.orderByNs.get(ns) || []) {
+      lines.push(`  readonly ${JSON.stringify(k)}: ${JSON.stringify(dict[k])}`)
+    }
+    lines.push("}", "")
+  }
+  const all = typeNames.length ? typeNames.join(" & ") : "Record<never, string>"
+  lines.push(`export type I18nDict = ${all}`, "")
+  writeFileSync(join(outputDir, "i18n.dict.ts"), lines.join("\n"))
+}
+
+// Precompiled ICU messages for `createLokat({ precompiled })` / `createSolidLokat({ precompiled })`,
+// so runtime bundles skip `parseMessage`. Only emitted when some value uses ICU arguments.
+// Keyed by source message: the same key in two namespaces keeps both, and an edited value
+// finds no stale AST at runtime.
+function emitMessages(outputDir: string, layout: InputLayout, locales: LocaleCode[]) {
+  const byLocale: Record<LocaleCode, Record<string, MessageAst>> = {}
+  let found = false
+  for (const loc of locales) {
+    const messages: Record<string, MessageAst> = {}
+    for (const [ns, dict] of layout.locales.get(loc) || []) {
+      for (const [k, v] of Object.entries(dict)) {
+        if (typeof v !== "string" || !hasMessageFormat(v)) continue
+        try {
+          messages[v] ??= parseMessage(v)
+        } catch (err) {
+          throw new Error(`[${loc}/${ns}] ${k}: ${(err as Error).message}`)
+        }
+        found = true
+      }
+    }
+    byLocale[loc] = messages
+  }
+  if (!found) return
+  const lines = [
+    "// Auto-generated by @lokat/gen",
+    'import type { PrecompiledMessages } from "@lokat/core"',
+    "",
+    "export const i18nMessages: PrecompiledMessages = {",
+  ]
+  for (const [loc, messages] of Object.entries(byLocale)) {
+    lines.push(`  ${JSON.stringify(loc)}: {`)
+    for (const [source, ast] of Object.entries(messages)) {
+      lines.push(`    ${JSON.stringify(source)}: ${JSON.stringify(ast)},`)
+    }
+    lines.push("  },")
+  }
+  lines.push("}", "")
+  writeFileSync(join(outputDir, "i18n.messages.ts"), lines.join("\n"))
+}
+
+// Content hashes for `createLokat({ manifest })` / `createSolidLokat({ manifest })`: one per
+// `<locale>/<namespace>`, plus one per locale for its namespaces merged in order. Nested files
+// are hashed flattened, the shape instances check with `flatten` (flat files are unchanged).
+function emitManifest(
+  outputDir: string,
+  layout: InputLayout,
+  namespaces: Namespace[],
+  locales: LocaleCode[],
+) {
+  const lines = [
+    "// Auto-generated by @lokat/gen",
+    'import type { DictionaryManifest } from "@lokat/core"',
+    "",
+    "export const i18nManifest: DictionaryManifest = {",
+  ]
+  for (const loc of locales) {
+    const nsMap = layout.locales.get(loc)
+    const merged: LocaleDict = {}
+    for (const ns of namespaces) {
+      const nested = nsMap?.get(ns)
+      if (!nested) continue
+      const dict = flattenDictionary(nested)
+      Object.assign(merged, dict)
+      lines.push(
+        `  ${JSON.stringify(manifestKey(loc, ns))}: ${JSON.stringify(hashDictionary(dict))},`,
+      )
+    }
+    lines.push(`  ${JSON.stringify(loc)}: ${JSON.stringify(hashDictionary(merged))},`)
+  }
+  lines.push("}", "")
+  writeFileSync(join(outputDir, "i18n.manifest.ts"), lines.join("\n"))
+}
+
 function emitArrays(
   outputDir: string,
   layout: InputLayout,
@@ -34,21 +137,47 @@ function emitArrays(
     for (const ns of namespaces) {
       const dict = nsMap?.get(ns)
       if (!dict) continue
-      const constName = names.constNameFor(ns, loc)
-      const arr = JSON.stringify(Object.values(dict))
-      const content = `// Auto-generated by @lokat/gen\nexport const ${constName} = Object.freeze(${arr} as const)`
-      writeFileSync(join(outputDir, `${loc}.${ns}.generated.ts`), `${content}\n`)
+      writeArray(outputDir, ns, loc, Object.values(dict))
     }
   }
 }
 
+// Pseudo-locale arrays from the reference locale (`pseudoLocalize` from `@lokat/core`), for
+// testing layouts and spotting hard-coded strings before real translations exist.
+function emitPseudoArrays(
+  outputDir: string,
+  layout: InputLayout,
+  res: GenerateResult,
+  pseudoLocale: LocaleCode,
+) {
+  const ref = layout.locales.get(res.refLocale)
+  for (const ns of res.namespaces) {
+    const dict = ref?.get(ns)
+    if (!dict) continue
+    const values = (res.orderByNs.get(ns) || []).map((k) => dict[k] ?? k)
+    writeArray(outputDir, ns, pseudoLocale, pseudoDictionary(values))
+  }
+}
+
+function writeArray(outputDir: string, ns: Namespace, loc: LocaleCode, values: readonly string[]) {
+  const constName = names.constNameFor(ns, loc)
+  const arr = JSON.stringify(values)
+  const content = `// Auto-generated by @lokat/gen\nexport const ${constName} = Object.freeze(${arr} as const)`
+  writeFileSync(join(outputDir, `${loc}.${ns}.generated.ts`), `${content}\n`)
+}
+
 export function emitAll(
   outputDir: string,
   layout: InputLayout,
   res: GenerateResult,
   locales: LocaleCode[],
+  pseudoLocale?: LocaleCode,
 ) {
   mkdirSync(outputDir, { recursive: true })
   emitKeys(outputDir, res.namespaces, res.orderByNs)
+  emitDictTypes(outputDir, layout, res)
+  emitMessages(outputDir, layout, locales)
+  emitManifest(outputDir, layout, res.namespaces, locales)
   emitArrays(outputDir, layout, res.namespaces, locales)
+  if (pseudoLocale) emitPseudoArrays(outputDir, layout, res, pseudoLocale)
 }
@@ -22,6 +22,6 @@ import { validateAndOrder } from "./validate"
 export async function generate(opts: GenerateOptions): Promise<GenerateResult> {
   const layout = await loadLayout(opts.inputDir, opts.locales)
   const res = validateAndOrder(layout, opts.refLocale)
-  emitAll(opts.outputDir, layout, res, opts.locales)
+  emitAll(opts.outputDir, layout, res, opts.locales, opts.pseudoLocale)
   return res
 }
@@ -13,6 +13,8 @@ export interface GenerateOptions {
   outputDir: string
   locales: LocaleCode[]
   refLocale: LocaleCode
+  // Also emit pseudo-localized arrays of the reference locale under this code (e.g. "en-XA")
+  pseudoLocale?: LocaleCode
 }
 
 export interface ValidationIssue {
@@ -22,6 +24,7 @@ export interface ValidationIssue {
 }
 
 export interface GenerateResult {
+  refLocale: LocaleCode
   namespaces: Namespace[]
   orderByNs: Map<Namespace, string[]> // key order from ref locale
   issues: ValidationIssue[]
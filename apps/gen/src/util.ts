@@ -20,8 +20,13 @@ function formatEnumName(ns: Namespace): string {
   return `${t}K`
 }
 
+function formatDictTypeName(ns: Namespace): string {
+  const t = titleCaseNamespace(ns)
+  return `${t}Dict`
+}
+
 function constNameFor(ns: Namespace, locale: LocaleCode): string {
-  return `${ns.toUpperCase()}_${locale.toUpperCase()}`
+  return `${ns.toUpperCase()}_${locale.toUpperCase()}`.replace(/[^A-Z0-9_]/g, "_")
 }
 
 // Support two layouts:
@@ -62,4 +67,4 @@ export async function loadLayout(inputDir: string, locales: LocaleCode[]): Promi
   return layout
 }
 
-export const names = { formatEnumName, constNameFor }
+export const names = { formatEnumName, formatDictTypeName, constNameFor }
@@ -39,5 +39,5 @@ export function validateAndOrder(layout: InputLayout, refLocale: LocaleCode): Ge
     }
   }
 
-  return { namespaces, orderByNs, issues }
+  return { refLocale, namespaces, orderByNs, issues }
 }
@@ -0,0 +1,92 @@
+import { afterAll, describe, expect, it } from "bun:test"
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import ts from "typescript"
+import { generate } from "../src/index"
+
+const root = mkdtempSync(join(tmpdir(), "lokat-gen-"))
+const input = join(root, "locales")
+const output = join(root, "generated")
+
+function writeJson(file: string, value: unknown) {
+  mkdirSync(join(file, ".."), { recursive: true })
+  writeFileSync(file, JSON.stringify(value))
+}
+
+writeJson(join(input, "en/common.json"), { ok: "OK", greet: 'Hi {name}, "quoted"' })
+writeJson(join(input, "en/cart.json"), {
+  "cart.items_one": "{count} item",
+  "cart.items_other": "{count} items",
+})
+writeJson(join(input, "id/common.json"), { ok: "Oke", greet: "Halo {name}" })
+writeJson(join(input, "id/cart.json"), {
+  "cart.items_one": "{count} barang",
+  "cart.items_other": "{count} barang",
+})
+
+afterAll(() => rmSync(root, { recursive: true, force: true }))
+
+// Compile `file` with the repo's compiler options; `@ts-expect-error` lines are assertions.
+function typeErrors(file: string): string[] {
+  const base = ts.readConfigFile(
+    join(import.meta.dir, "../../../tsconfig.base.json"),
+    ts.sys.readFile,
+  )
+  const { options } = ts.convertCompilerOptionsFromJson(
+    { ...base.config.compilerOptions, types: [], incremental: false, isolatedDeclarations: false },
+    root,
+  )
+  const program = ts.createProgram([file], { ...options, noEmit: true })
+  return ts
+    .getPreEmitDiagnostics(program)
+    .map((d) => `${d.file?.fileName}:${ts.flattenDiagnosticMessageText(d.messageText, " ")}`)
+}
+
+describe("@lokat/gen dictionary types", () => {
+  it("emits literal dictionary types from the reference locale", async () => {
+    await generate({ inputDir: input, outputDir: output, locales: ["en", "id"], refLocale: "en" })
+    expect(readFileSync(join(output, "i18n.dict.ts"), "utf8")).toBe(
+      [
+        "// Auto-generated by @lokat/gen",
+        "",
+        "export type CartDict = {",
+        '  readonly "cart.items_one": "{count} item"',
+        '  readonly "cart.items_other": "{count} items"',
+        "}",
+        "",
+        "export type CommonDict = {",
+        '  readonly "ok": "OK"',
+        '  readonly "greet": "Hi {name}, \\"quoted\\""',
+        "}",
+        "",
+        "export type I18nDict = CartDict & CommonDict",
+        "",
+      ].join("\n"),
+    )
+  })
+
+  it("types core translators with the emitted I18nDict", () => {
+    const core = join(import.meta.dir, "../../../packages/core/src/index")
+    const usage = join(output, "usage.ts")
+    writeFileSync(
+      usage,
+      [
+        `import { createLokat } from ${JSON.stringify(core)}`,
+        `import type { I18nDict } from "./i18n.dict"`,
+        "const t = createLokat<I18nDict>({ resolveLocaleUrl: (l) => l }).createT({})",
+        `t("ok")`,
+        `t("greet", { name: "Ada" })`,
+        `t("cart.items", { count: 2 })`,
+        "// @ts-expect-error unknown key",
+        `t("okk")`,
+        "// @ts-expect-error unknown param",
+        `t("greet", { nmae: "Ada" })`,
+        "// @ts-expect-error plural base keys need `count`",
+        `t("cart.items")`,
+        "",
+      ].join("\n"),
+    )
+    expect(typeErrors(usage)).toEqual([])
+  }, 30_000)
+})
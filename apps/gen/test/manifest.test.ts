@@ -0,0 +1,47 @@
+import { afterAll, describe, expect, it } from "bun:test"
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { createLokat, type DictionaryManifest, hashDictionary } from "@lokat/core"
+import { generate } from "../src/index"
+
+const root = mkdtempSync(join(tmpdir(), "lokat-gen-"))
+const input = join(root, "locales")
+const output = join(root, "generated")
+
+const FILES: Record<string, Record<string, unknown>> = {
+  "en/home": { home: { title: "Welcome", cta: { label: "Start" } } },
+  "en/common": { ok: "OK" },
+}
+for (const [path, dict] of Object.entries(FILES)) {
+  mkdirSync(join(input, path, ".."), { recursive: true })
+  writeFileSync(join(input, `${path}.json`), JSON.stringify(dict))
+}
+
+afterAll(() => rmSync(root, { recursive: true, force: true }))
+
+describe("@lokat/gen manifest", () => {
+  it("hashes nested dictionaries as instances with `flatten` see them", async () => {
+    await generate({ inputDir: input, outputDir: output, locales: ["en"], refLocale: "en" })
+    const { i18nManifest } = (await import(join(output, "i18n.manifest.ts"))) as {
+      i18nManifest: DictionaryManifest
+    }
+    expect(i18nManifest["en/home"]).toBe(
+      hashDictionary({ "home.title": "Welcome", "home.cta.label": "Start" }),
+    )
+    expect(i18nManifest["en/common"]).toBe(hashDictionary({ ok: "OK" }))
+
+    const mismatches: unknown[] = []
+    const i18n = createLokat({
+      resolveLocaleUrl: (locale, ns) => `${locale}/${ns}`,
+      fetcher: async (path) => ({ json: async () => structuredClone(FILES[path]) }),
+      flatten: true,
+      manifest: i18nManifest,
+      onVersionMismatch: (error) => mismatches.push(error),
+    })
+    const dict = await i18n.load("en", ["home", "common"])
+    expect(dict["home.cta.label"]).toBe("Start")
+    expect(i18n.version("en", "home")).toBe(i18nManifest["en/home"])
+    expect(mismatches).toEqual([])
+  })
+})
@@ -0,0 +1,42 @@
+import { afterAll, describe, expect, it } from "bun:test"
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { createLokat, type PrecompiledMessages } from "@lokat/core"
+import { generate } from "../src/index"
+
+const root = mkdtempSync(join(tmpdir(), "lokat-gen-"))
+const input = join(root, "locales")
+const output = join(root, "generated")
+
+const FILES: Record<string, Record<string, string>> = {
+  "en/cart": { count: "{n, plural, one {# item} other {# items}}" },
+  "en/inbox": { count: "{n, plural, one {# message} other {# messages}}" },
+}
+for (const [path, dict] of Object.entries(FILES)) {
+  mkdirSync(join(input, path, ".."), { recursive: true })
+  writeFileSync(join(input, `${path}.json`), JSON.stringify(dict))
+}
+
+afterAll(() => rmSync(root, { recursive: true, force: true }))
+
+describe("@lokat/gen precompiled messages", () => {
+  it("keeps a key shared by two namespaces apart", async () => {
+    await generate({ inputDir: input, outputDir: output, locales: ["en"], refLocale: "en" })
+    const { i18nMessages } = (await import(join(output, "i18n.messages.ts"))) as {
+      i18nMessages: PrecompiledMessages
+    }
+    expect(Object.keys(i18nMessages.en ?? {}).sort()).toEqual([
+      "{n, plural, one {# item} other {# items}}",
+      "{n, plural, one {# message} other {# messages}}",
+    ])
+
+    const i18n = createLokat({
+      resolveLocaleUrl: (locale, ns) => `${locale}/${ns}`,
+      fetcher: async (path) => ({ json: async () => ({ ...FILES[path] }) }),
+      precompiled: i18nMessages,
+    })
+    expect(i18n.createT(await i18n.load("en", ["cart"]))("count", { n: 2 })).toBe("2 items")
+    expect(i18n.createT(await i18n.load("en", ["inbox"]))("count", { n: 2 })).toBe("2 messages")
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * Bounded instance caches: least-recently-used eviction and an optional TTL.
+ *
+ * Shared by `createLokat` and the adapters, so every locale cache offers the same
+ * controls (`has`, `invalidate`, `clear`, `entries`) and the same memory policy.
+ */
+
+/**
+ * Memory policy for an instance's locale cache. Unbounded and without expiry by default.
+ */
+export interface CacheOptions {
+  /** Keep at most this many entries; the least recently used one is evicted first. */
+  maxEntries?: number
+  /** Entries older than this many milliseconds are dropped when next accessed (reloaded). */
+  ttl?: number
+}
+
+/**
+ * A cached locale (or one namespace of it), as listed by `CacheControl.entries()`.
+ */
+export interface CacheEntry<L = string> {
+  locale: L
+  /** Set for namespaced entries (core). */
+  namespace?: string
+  /** `Date.now()` when the load started. */
+  createdAt: number
+}
+
+/**
+ * Public controls over an instance's locale cache.
+ */
+export interface CacheControl<L = string> {
+  /** Whether a live (not expired) entry exists for `locale`, in any namespace. */
+  has(locale: L): boolean
+  /**
+   * Drop every entry for `locale`; the next load fetches it again. Dictionaries already
+   * handed out (including the one on screen) are unaffected.
+   * @returns Whether anything was dropped.
+   */
+  invalidate(locale: L): boolean
+  /** Drop every entry. */
+  clear(): void
+  /** Live entries, least recently used first. */
+  entries(): CacheEntry<L>[]
+}
+
+/**
+ * Map-like LRU cache with optional TTL, as used by the locale caches.
+ */
+export interface LruCache<K, V> {
+  /** Live value for `key`, marking it most recently used. */
+  get(key: K): V | undefined
+  /** Value for `key` without touching recency or expiry. */
+  peek(key: K): V | undefined
+  /** Insert or replace `key`, evicting the least recently used entries beyond `maxEntries`. */
+  set(key: K, value: V): void
+  has(key: K): boolean
+  delete(key: K): boolean
+  clear(): void
+  /** Live entries, least recently used first. */
+  entries(): Array<{ key: K; value: V; createdAt: number }>
+}
+
+/**
+ * Create an LRU cache. `onDelete` runs for every entry that leaves the cache by eviction,
+ * expiry, `delete` or `clear` (not when `set` replaces a value), so dependent state can follow.
+ * @example
+ * const cache = createLruCache<string, Promise<Dict>>({ maxEntries: 8, ttl: 60_000 })
+ */
+export function createLruCache<K, V>(
+  options: CacheOptions = {},
+  onDelete?: (key: K, value: V) => void,
+): LruCache<K, V> {
+  const { maxEntries = Number.POSITIVE_INFINITY, ttl } = options
+  const map = new Map<K, { value: V; createdAt: number }>()
+
+  /**
+   * Internal: the entry for `key`, dropping it first when expired.
+   */
+  function live(key: K) {
+    const entry = map.get(key)
+    if (entry && ttl !== undefined && Date.now() - entry.createdAt >= ttl) {
+      remove(key, entry.value)
+      return undefined
+    }
+    return entry
+  }
+
+  /**
+   * Internal: remove `key` and notify.
+   */
+  function remove(key: K, value: V) {
+    map.delete(key)
+    onDelete?.(key, value)
+  }
+
+  return {
+    get(key) {
+      const entry = live(key)
+      if (!entry) return undefined
+      // Re-insert to move the entry to the most recently used end.
+      map.delete(key)
+      map.set(key, entry)
+      return entry.value
+    },
+    peek: (key) => map.get(key)?.value,
+    set(key, value) {
+      map.delete(key)
+      map.set(key, { value, createdAt: Date.now() })
+      for (const [k, entry] of map) {
+        if (map.size <= maxEntries) break
+        remove(k, entry.value)
+      }
+    },
+    has: (key) => live(key) !== undefined,
+    delete(key) {
+      const entry = map.get(key)
+      if (!entry) return false
+      remove(key, entry.value)
+      return true
+    },
+    clear() {
+      for (const [k, entry] of map) remove(k, entry.value)
+    },
+    entries() {
+      const out: Array<{ key: K; value: V; createdAt: number }> = []
+      for (const key of [...map.keys()]) {
+        const entry = live(key)
+        if (entry) out.push({ key, value: entry.value, createdAt: entry.createdAt })
+      }
+      return out
+    },
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Text direction of a locale, for `<html dir>` and layout decisions.
+ *
+ * Script subtags are looked up in a table of right-to-left scripts; otherwise
+ * `Intl.Locale` text info is used where the runtime provides it, and a table of
+ * right-to-left languages elsewhere.
+ */
+
+/** Writing direction of a locale. */
+export type TextDirection = "ltr" | "rtl"
+
+/**
+ * Attributes for the root `<html>` element.
+ */
+export interface HtmlAttributes {
+  lang: string
+  dir: TextDirection
+}
+
+// ISO 15924 codes of right-to-left scripts (lowercase).
+const RTL_SCRIPTS = new Set([
+  "adlm",
+  "arab",
+  "hebr",
+  "mand",
+  "mend",
+  "nkoo",
+  "rohg",
+  "samr",
+  "syrc",
+  "thaa",
+  "yezi",
+])
+
+// Languages written right-to-left by default, when the tag names no script.
+const RTL_LANGUAGES = new Set([
+  "ar",
+  "arc",
+  "azb",
+  "ckb",
+  "dv",
+  "fa",
+  "glk",
+  "he",
+  "iw",
+  "ks",
+  "lrc",
+  "mzn",
+  "nqo",
+  "pnb",
+  "ps",
+  "sd",
+  "syr",
+  "ug",
+  "ur",
+  "yi",
+])
+
+// `getTextInfo()` (current spec) or the `textInfo` getter (earlier V8); absent in some engines.
+type TextInfoLocale = Intl.Locale & {
+  getTextInfo?: () => { direction?: string }
+  textInfo?: { direction?: string }
+}
+
+/**
+ * Direction of `locale`: `"rtl"` for Arabic, Hebrew, Persian, Urdu, ... and for any tag
+ * with a right-to-left script subtag (`pa-Arab`); `"ltr"` otherwise, including for
+ * missing or malformed tags.
+ * @example textDirection("ar-EG") // "rtl"
+ * @example textDirection("az-Arab") // "rtl"
+ */
+export function textDirection(locale: string | undefined): TextDirection {
+  if (!locale) return "ltr"
+  const [language = "", ...subtags] = locale.toLowerCase().split(/[-_]/)
+  // An explicit script decides on its own (engines disagree on e.g. `az-Arab`).
+  const script = subtags.find((s) => s.length === 4 && !/\d/.test(s))
+  if (script) return RTL_SCRIPTS.has(script) ? "rtl" : "ltr"
+  try {
+    const l = new Intl.Locale(locale) as TextInfoLocale
+    const direction = (l.getTextInfo?.() ?? l.textInfo)?.direction
+    if (direction === "rtl" || direction === "ltr") return direction
+  } catch {
+    // Malformed tag: the language table still applies.
+  }
+  return RTL_LANGUAGES.has(language) ? "rtl" : "ltr"
+}
+
+/**
+ * `lang` and `dir` for the server-rendered `<html>` element.
+ * @example
+ * const { lang, dir } = htmlAttributes(locale)
+ * html = `<html lang="${lang}" dir="${dir}">`
+ */
+export function htmlAttributes(locale: string): HtmlAttributes {
+  return { lang: locale, dir: textDirection(locale) }
+}
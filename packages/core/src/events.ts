@@ -0,0 +1,176 @@
+/**
+ * Instance events: typed subscriptions for analytics and logging.
+ *
+ * Every instance (`createLokat` and the adapters) exposes `on(type, listener)`, which
+ * returns an unsubscribe function. Nothing is timed or allocated while nobody listens.
+ */
+
+/** Target of a load: the locale, and the namespaces when the load requested some. */
+export interface LoadEvent<L = string> {
+  locale: L
+  /** Set for namespaced loads (core). */
+  namespaces?: readonly string[]
+}
+
+/** Emitted when a load is requested. */
+export interface LoadStartEvent<L = string> extends LoadEvent<L> {
+  /** Answered from the instance cache, without a new fetch (it may join one still in flight). */
+  cached: boolean
+}
+
+/** Emitted when a load resolved. */
+export interface LoadSuccessEvent<L = string> extends LoadStartEvent<L> {
+  /** Milliseconds from `loadStart`. */
+  duration: number
+}
+
+/** Emitted when a load failed (after retries). */
+export interface LoadErrorEvent<L = string> extends LoadSuccessEvent<L> {
+  error: unknown
+}
+
+/** Emitted when a translator falls back for a missing key. */
+export interface MissingKeyEvent<L = string, K = string> {
+  key: K
+  /** Locale of the dictionary that missed it. */
+  locale: L
+}
+
+/** Emitted when the instance's current locale changes. */
+export interface LocaleChangeEvent<L = string> {
+  locale: L
+  previous: L
+}
+
+/**
+ * Load events, shared by every instance.
+ */
+export interface LoadEvents<L = string> {
+  loadStart: LoadStartEvent<L>
+  loadSuccess: LoadSuccessEvent<L>
+  loadError: LoadErrorEvent<L>
+}
+
+/**
+ * Events of the Solid adapters. `K` is the key type (`number` for array-mode instances).
+ */
+export interface LokatEvents<L = string, K = string> extends LoadEvents<L> {
+  localeChange: LocaleChangeEvent<L>
+  missingKey: MissingKeyEvent<L, K>
+}
+
+/**
+ * Events of a core instance. It holds no current locale, so there is no `localeChange`;
+ * `missingKey` has no locale for translators created without one.
+ */
+export interface LokatCoreEvents extends LoadEvents<string> {
+  missingKey: MissingKeyEvent<string | undefined>
+}
+
+/**
+ * Typed listener registry behind an instance's `on`.
+ */
+export interface Emitter<E> {
+  /**
+   * Call `listener` with every `type` event until the returned function is called.
+   * @example const off = i18n.on("loadError", (e) => log.warn(e.locale, e.error))
+   */
+  on<T extends keyof E>(type: T, listener: (event: E[T]) => void): () => void
+  /** Call the listeners of `type`; one that throws does not stop the others or the caller. */
+  emit<T extends keyof E>(type: T, event: E[T]): void
+  /** Whether `type` has listeners, to skip building events nobody receives. */
+  has(type: keyof E): boolean
+  /**
+   * Emitter for the listeners subscribed now: ones added later are skipped, ones removed
+   * meanwhile are not called.
+   */
+  snapshot(): Pick<Emitter<E>, "emit">
+}
+
+/**
+ * Create an emitter. Errors thrown by listeners are rethrown asynchronously, so they
+ * are reported without breaking the load or translation that emitted the event.
+ * @example const events = createEmitter<LokatEvents<string>>()
+ */
+export function createEmitter<E>(): Emitter<E> {
+  const listeners = new Map<keyof E, Set<(event: never) => void>>()
+  return {
+    on(type, listener) {
+      let set = listeners.get(type)
+      if (!set) {
+        set = new Set()
+        listeners.set(type, set)
+      }
+      set.add(listener)
+      return () => {
+        set.delete(listener)
+      }
+    },
+    emit(type, event) {
+      const set = listeners.get(type)
+      if (set?.size) call([...set], set, event)
+    },
+    has: (type) => (listeners.get(type)?.size ?? 0) > 0,
+    snapshot() {
+      const present = new Map(Array.from(listeners, ([type, set]) => [type, [...set]] as const))
+      return {
+        emit(type, event) {
+          const set = listeners.get(type)
+          const targets = present.get(type)
+          if (set?.size && targets) call(targets, set, event)
+        },
+      }
+    },
+  }
+}
+
+/**
+ * Internal: call `targets` still in `set` with `event`, rethrowing their errors asynchronously.
+ */
+function call<T>(targets: readonly ((event: never) => void)[], set: Set<unknown>, event: T): void {
+  for (const listener of targets) {
+    if (!set.has(listener)) continue
+    try {
+      ;(listener as (event: T) => void)(event)
+    } catch (err) {
+      queueMicrotask(() => {
+        throw err
+      })
+    }
+  }
+}
+
+// Monotonic where available; `Date` elsewhere.
+const clock: { now(): number } =
+  (globalThis as { performance?: { now(): number } }).performance ?? Date
+
+/**
+ * Run `load` and emit `loadStart`, then `loadSuccess` or `loadError` with its duration, to the
+ * listeners present when it starts: one added mid-load gets nothing for that load.
+ * Without listeners it only calls `load` (and never `cached`).
+ * @param cached Whether the load is answered from the cache; read before `load` runs.
+ */
+export function trackLoad<L, T>(
+  events: Emitter<LoadEvents<L>>,
+  target: LoadEvent<L>,
+  cached: () => boolean,
+  load: () => Promise<T>,
+): Promise<T> {
+  if (!events.has("loadStart") && !events.has("loadSuccess") && !events.has("loadError")) {
+    return load()
+  }
+  const present = events.snapshot()
+  const start = { ...target, cached: cached() }
+  present.emit("loadStart", start)
+  const began = clock.now()
+  return load().then(
+    (value) => {
+      present.emit("loadSuccess", { ...start, duration: clock.now() - began })
+      return value
+    },
+    (error: unknown) => {
+      present.emit("loadError", { ...start, duration: clock.now() - began, error })
+      throw error
+    },
+  )
+}
@@ -0,0 +1,95 @@
+/**
+ * Locale-aware formatters over `Intl`, with one cached `Intl` object per
+ * kind + locale + options.
+ */
+
+/**
+ * Formatting helpers bound to a locale.
+ */
+export interface Formatters {
+  /** `Intl.NumberFormat`. @example f.number(1234.5) // "1,234.5" */
+  number(value: number | bigint, options?: Intl.NumberFormatOptions): string
+  /** `Intl.NumberFormat` with `style: "currency"`. @example f.currency(9.5, "EUR") // "€9.50" */
+  currency(value: number | bigint, currency: string, options?: Intl.NumberFormatOptions): string
+  /** `Intl.DateTimeFormat`; pass `timeStyle` for times. */
+  date(value: Date | number, options?: Intl.DateTimeFormatOptions): string
+  /** `Intl.RelativeTimeFormat`. @example f.relativeTime(-1, "day", { numeric: "auto" }) // "yesterday" */
+  relativeTime(
+    value: number,
+    unit: Intl.RelativeTimeFormatUnit,
+    options?: Intl.RelativeTimeFormatOptions,
+  ): string
+  /** `Intl.ListFormat`. @example f.list(["a", "b", "c"]) // "a, b, and c" */
+  list(items: Iterable<string>, options?: Intl.ListFormatOptions): string
+}
+
+/**
+ * Shared `Intl` object cache; pass one to several `createFormatters` calls to reuse objects.
+ */
+export interface IntlCache {
+  number(locale: string | undefined, options?: Intl.NumberFormatOptions): Intl.NumberFormat
+  date(locale: string | undefined, options?: Intl.DateTimeFormatOptions): Intl.DateTimeFormat
+  relativeTime(
+    locale: string | undefined,
+    options?: Intl.RelativeTimeFormatOptions,
+  ): Intl.RelativeTimeFormat
+  list(locale: string | undefined, options?: Intl.ListFormatOptions): Intl.ListFormat
+}
+
+/**
+ * Create a cache of `Intl` formatters keyed by kind, locale and options.
+ * Options are keyed by their JSON form, so `{ a, b }` and `{ b, a }` are cached separately.
+ */
+export function createIntlCache(): IntlCache {
+  const cache = new Map<string, unknown>()
+
+  function get<T>(
+    kind: string,
+    locale: string | undefined,
+    options: object | undefined,
+    make: () => T,
+  ): T {
+    const id = `${kind}\0${locale ?? ""}\0${options ? JSON.stringify(options) : ""}`
+    let value = cache.get(id) as T | undefined
+    if (!value) {
+      value = make()
+      cache.set(id, value)
+    }
+    return value
+  }
+
+  return {
+    number: (locale, options) =>
+      get("n", locale, options, () => new Intl.NumberFormat(locale, options)),
+    date: (locale, options) =>
+      get("d", locale, options, () => new Intl.DateTimeFormat(locale, options)),
+    relativeTime: (locale, options) =>
+      get("r", locale, options, () => new Intl.RelativeTimeFormat(locale, options)),
+    list: (locale, options) =>
+      get("l", locale, options, () => new Intl.ListFormat(locale, options)),
+  }
+}
+
+/**
+ * Create formatters for `locale`. Pass a getter to follow a changing locale: it is
+ * read on every call, so reactive adapters can pass a signal.
+ *
+ * @param locale BCP 47 tag, or a getter for one; `undefined` uses the runtime default.
+ * @param cache Shared `Intl` cache; a private one is created when omitted.
+ */
+export function createFormatters(
+  locale: string | undefined | (() => string | undefined),
+  cache: IntlCache = createIntlCache(),
+): Formatters {
+  const current = typeof locale === "function" ? locale : () => locale
+
+  return {
+    number: (value, options) => cache.number(current(), options).format(value),
+    currency: (value, currency, options) =>
+      cache.number(current(), { ...options, style: "currency", currency }).format(value),
+    date: (value, options) => cache.date(current(), options).format(value),
+    relativeTime: (value, unit, options) =>
+      cache.relativeTime(current(), options).format(value, unit),
+    list: (items, options) => cache.list(current(), options).format(items),
+  }
+}
@@ -0,0 +1,414 @@
+/**
+ * ICU MessageFormat subset: `{arg}`, `{arg, number|date|time[, style]}`,
+ * `{arg, plural|selectordinal, [offset:n] =0 {...} one {...} other {...}}` with `#`,
+ * and `{arg, select, key {...} other {...}}`, nested to any depth.
+ *
+ * Parsing and compiling are separate steps so precompiled ASTs (see `@lokat/gen`)
+ * can be compiled without shipping `parseMessage`. Compiled messages are closures;
+ * no `eval`/`new Function`, so they are CSP-safe.
+ */
+
+import { createIntlCache, type IntlCache } from "./format"
+import type { PluralRulesResolver, TranslateParams } from "./index"
+
+/** `#` inside a plural: the plural value minus its offset. */
+export interface PoundNode {
+  type: "#"
+}
+
+/** `{arg}` or `{arg, number|date|time[, style]}`. */
+export interface ArgumentNode {
+  arg: string
+  type?: "number" | "date" | "time"
+  style?: string
+}
+
+/** `{arg, plural|selectordinal, ...}`; option keys are `=<n>` or CLDR categories. */
+export interface PluralNode {
+  arg: string
+  type: "plural" | "selectordinal"
+  offset?: number
+  options: Readonly<Record<string, MessageAst>>
+}
+
+/** `{arg, select, ...}`. */
+export interface SelectNode {
+  arg: string
+  type: "select"
+  options: Readonly<Record<string, MessageAst>>
+}
+
+/** A literal string or an ICU construct. */
+export type MessageNode = string | PoundNode | ArgumentNode | PluralNode | SelectNode
+
+/** Parsed message: JSON-serializable, so it can be precompiled at build time. */
+export type MessageAst = readonly MessageNode[]
+
+/**
+ * ASTs by locale, then by source message (as emitted by `@lokat/gen`). Keyed by source, so
+ * a value that changed since generation finds no AST instead of a stale one.
+ */
+export type PrecompiledMessages = Readonly<Record<string, Readonly<Record<string, MessageAst>>>>
+
+/** A compiled message. Params may be accessors, as with `t`. */
+export type MessageFunction = (params?: TranslateParams) => string
+
+/**
+ * Thrown by `parseMessage` on invalid syntax; `key` is set when raised while compiling a dictionary.
+ */
+export interface MessageFormatError extends Error {
+  name: "MessageFormatError"
+  /** Character offset of the problem within the message. */
+  offset: number
+  key?: string
+}
+
+/**
+ * Options for `compileMessage`.
+ */
+export interface CompileMessageOptions {
+  /** BCP 47 tag for plural rules and number/date formatting. */
+  locale?: string | undefined
+  /** Plural rules provider; pass a shared `createPluralRules()` to reuse rule objects. */
+  pluralRules?: PluralRulesResolver
+  /** Shared `Intl` cache for `#`, `number`, `date` and `time`. */
+  intl?: IntlCache
+}
+
+/**
+ * Options for `compileMessages`.
+ */
+export interface CompileMessagesOptions extends CompileMessageOptions {
+  /** Parser for values using ICU arguments; omit to rely on `precompiled` only. */
+  parseMessage?: ((message: string) => MessageAst) | undefined
+  /** Precompiled ASTs for this dictionary's locale, by source message. Preferred over parsing. */
+  precompiled?: Readonly<Record<string, MessageAst>> | undefined
+}
+
+// `{name,` — only values with a typed argument need the ICU compiler; plain `{name}`
+// templates stay on the translator's split-based path.
+const ICU_ARGUMENT = /\{\s*[\w.-]+\s*,/
+
+const NAME_CHAR = /[^\s{},#']/
+
+/**
+ * Whether `message` uses ICU arguments (`{n, plural, ...}`, `{x, number}`, ...) and
+ * therefore needs `parseMessage`; plain `{name}` templates do not.
+ */
+export function hasMessageFormat(message: string): boolean {
+  return ICU_ARGUMENT.test(message)
+}
+
+/**
+ * Parse an ICU message into an AST.
+ *
+ * Quoting follows ICU: `''` is a literal `'`; `'` before `{`, `}` or (in plurals) `#`
+ * starts a quoted literal that ends at the next single `'`.
+ *
+ * @throws MessageFormatError on invalid syntax.
+ * @example
+ * parseMessage("{n, plural, one {# item} other {# items}}")
+ */
+export function parseMessage(message: string): MessageAst {
+  let i = 0
+
+  function fail(reason: string): never {
+    throw Object.assign(new Error(`Invalid message at offset ${i}: ${reason}`), {
+      name: "MessageFormatError" as const,
+      offset: i,
+    })
+  }
+
+  function skipSpace() {
+    while (i < message.length && /\s/.test(message[i] as string)) i++
+  }
+
+  function word(): string {
+    const start = i
+    while (i < message.length && NAME_CHAR.test(message[i] as string)) i++
+    return message.slice(start, i)
+  }
+
+  function eat(c: string) {
+    if (message[i] !== c) fail(i < message.length ? `expected "${c}"` : "unclosed argument")
+    i++
+  }
+
+  function quoted(inPlural: boolean): string {
+    const next = message[i + 1]
+    if (next === "'") {
+      i += 2
+      return "'"
+    }
+    if (next !== "{" && next !== "}" && !(inPlural && next === "#")) {
+      i++
+      return "'"
+    }
+    let out = ""
+    i++
+    while (i < message.length) {
+      const c = message[i] as string
+      if (c === "'") {
+        if (message[i + 1] !== "'") {
+          i++
+          break
+        }
+        i++
+      }
+      out += c
+      i++
+    }
+    return out
+  }
+
+  function parts(inPlural: boolean, nested: boolean): MessageNode[] {
+    const out: MessageNode[] = []
+    let text = ""
+    while (i < message.length) {
+      const c = message[i] as string
+      if (c === "}") {
+        if (nested) break
+        fail('unexpected "}"')
+      }
+      if (c === "{" || (c === "#" && inPlural)) {
+        if (text) out.push(text)
+        text = ""
+        if (c === "#") {
+          out.push({ type: "#" })
+          i++
+        } else {
+          out.push(argument(inPlural))
+        }
+      } else if (c === "'") {
+        text += quoted(inPlural)
+      } else {
+        text += c
+        i++
+      }
+    }
+    if (text) out.push(text)
+    return out
+  }
+
+  function options(inPlural: boolean): Record<string, MessageAst> {
+    const out: Record<string, MessageAst> = Object.create(null)
+    for (;;) {
+      skipSpace()
+      if (i >= message.length) fail("unclosed argument")
+      if (message[i] === "}") break
+      const key = word()
+      if (!key) fail("expected an option key")
+      skipSpace()
+      eat("{")
+      out[key] = parts(inPlural, true)
+      eat("}")
+    }
+    if (!("other" in out)) fail('missing "other" option')
+    i++
+    return out
+  }
+
+  function argument(inPlural: boolean): MessageNode {
+    i++
+    skipSpace()
+    const arg = word()
+    if (!arg) fail("expected an argument name")
+    skipSpace()
+    if (message[i] === "}") {
+      i++
+      return { arg }
+    }
+    eat(",")
+    skipSpace()
+    const type = word()
+    skipSpace()
+
+    if (type === "number" || type === "date" || type === "time") {
+      if (message[i] === "}") {
+        i++
+        return { arg, type }
+      }
+      eat(",")
+      const start = i
+      while (i < message.length && message[i] !== "}") i++
+      const style = message.slice(start, i).trim()
+      eat("}")
+      return style ? { arg, type, style } : { arg, type }
+    }
+
+    if (type === "plural" || type === "selectordinal") {
+      eat(",")
+      skipSpace()
+      let offset = 0
+      if (message.startsWith("offset:", i)) {
+        i += "offset:".length
+        skipSpace()
+        const digits = word()
+        offset = Number(digits)
+        if (!/^\d+$/.test(digits)) fail("invalid offset")
+      }
+      const node: PluralNode = { arg, type, options: options(true) }
+      return offset ? { ...node, offset } : node
+    }
+
+    if (type === "select") {
+      eat(",")
+      return { arg, type, options: options(inPlural) }
+    }
+
+    return fail(`unsupported argument type "${type}"`)
+  }
+
+  return parts(false, false)
+}
+
+// Internal: a compiled fragment; `pound` is the value of the closest enclosing plural.
+type Part = (params: TranslateParams, pound: number | undefined) => string
+
+const NUMBER_STYLES: Record<string, Intl.NumberFormatOptions> = {
+  integer: { maximumFractionDigits: 0 },
+  percent: { style: "percent" },
+}
+
+const DATE_STYLES = new Set(["short", "medium", "long", "full"])
+
+const NO_PARAMS: TranslateParams = {}
+
+/**
+ * Compile an AST into a message function. Plural rules and `Intl` formatters are
+ * resolved on first use and reused for every later call.
+ * @example
+ * const inbox = compileMessage(parseMessage("{n, plural, one {# message} other {# messages}}"), { locale: "en" })
+ * inbox({ n: 2 }) // "2 messages"
+ */
+export function compileMessage(
+  ast: MessageAst,
+  options: CompileMessageOptions = {},
+): MessageFunction {
+  const { locale } = options
+  const intl = options.intl ?? createIntlCache()
+  let cardinal: Intl.PluralRules | undefined
+  let ordinal: Intl.PluralRules | undefined
+
+  function rulesFor(ordinalType: boolean): Intl.PluralRules {
+    if (ordinalType) {
+      ordinal ??= new Intl.PluralRules(locale, { type: "ordinal" })
+      return ordinal
+    }
+    cardinal ??= options.pluralRules?.(locale) ?? new Intl.PluralRules(locale)
+    return cardinal
+  }
+
+  const value = (params: TranslateParams, arg: string) => {
+    const v = params[arg]
+    return typeof v === "function" ? v() : v
+  }
+
+  function sequence(nodes: MessageAst): Part {
+    const fns = nodes.map(node)
+    if (fns.length === 0) return () => ""
+    if (fns.length === 1) return fns[0] as Part
+    return (params, pound) => {
+      let out = ""
+      for (const fn of fns) out += fn(params, pound)
+      return out
+    }
+  }
+
+  function branches(opts: Readonly<Record<string, MessageAst>>) {
+    const map = new Map<string, Part>()
+    for (const key of Object.keys(opts)) map.set(key, sequence(opts[key] as MessageAst))
+    return { map, other: map.get("other") ?? (() => "") }
+  }
+
+  function node(n: MessageNode): Part {
+    if (typeof n === "string") return () => n
+    if (!("arg" in n)) {
+      return (_, pound) => (pound === undefined ? "#" : intl.number(locale).format(pound))
+    }
+
+    const { arg } = n
+    const raw = `{${arg}}`
+    switch (n.type) {
+      case undefined:
+        return (params) => {
+          const v = value(params, arg)
+          return v === undefined ? raw : String(v)
+        }
+      case "number": {
+        const style = n.style === undefined ? undefined : NUMBER_STYLES[n.style]
+        return (params) => {
+          const v = value(params, arg)
+          return v === undefined ? raw : intl.number(locale, style).format(Number(v))
+        }
+      }
+      case "date":
+      case "time": {
+        const style = (n.style && DATE_STYLES.has(n.style) ? n.style : "medium") as "medium"
+        const opts = n.type === "date" ? { dateStyle: style } : { timeStyle: style }
+        return (params) => {
+          const v = value(params, arg)
+          return v === undefined ? raw : intl.date(locale, opts).format(new Date(v))
+        }
+      }
+      case "select": {
+        const { map, other } = branches(n.options)
+        return (params, pound) => (map.get(String(value(params, arg))) ?? other)(params, pound)
+      }
+      default: {
+        const { map, other } = branches(n.options)
+        const offset = n.offset ?? 0
+        const ordinalType = n.type === "selectordinal"
+        return (params) => {
+          const v = Number(value(params, arg))
+          if (Number.isNaN(v)) return other(params, undefined)
+          const exact = map.get(`=${v}`)
+          if (exact) return exact(params, v - offset)
+          const category = rulesFor(ordinalType).select(v - offset)
+          return (map.get(category) ?? other)(params, v - offset)
+        }
+      }
+    }
+  }
+
+  const root = sequence(ast)
+  return (params = NO_PARAMS) => root(params, undefined)
+}
+
+/**
+ * Compile the ICU messages of a flat dictionary once, e.g. at load time.
+ *
+ * Values with a typed argument (`{n, plural, ...}`, `{g, select, ...}`, `{x, number}`)
+ * are compiled; plain strings and `{name}` templates are left to the translator.
+ * Precompiled ASTs win over parsing. They are matched by the value itself, so a value edited
+ * since generation (a revalidated or CDN-served dictionary) is parsed, or left to plain
+ * interpolation without `parseMessage`, rather than rendered from a stale AST.
+ *
+ * @throws MessageFormatError (with `key`) when a value fails to parse.
+ * @returns Compiled messages by key; pass as `messages` to `createTranslator`.
+ */
+export function compileMessages(
+  dict: Readonly<Record<string, unknown>>,
+  options: CompileMessagesOptions,
+): Map<string, MessageFunction> {
+  const { parseMessage: parse, precompiled, ...compileOptions } = options
+  const intl = compileOptions.intl ?? createIntlCache()
+  const out = new Map<string, MessageFunction>()
+
+  for (const key of Object.keys(dict)) {
+    const source = dict[key]
+    let ast =
+      precompiled && typeof source === "string" && Object.hasOwn(precompiled, source)
+        ? precompiled[source]
+        : undefined
+    if (!ast && parse && typeof source === "string" && hasMessageFormat(source)) {
+      try {
+        ast = parse(source)
+      } catch (err) {
+        throw Object.assign(err as Error, { key })
+      }
+    }
+    if (ast) out.set(key, compileMessage(ast, { ...compileOptions, intl }))
+  }
+  return out
+}
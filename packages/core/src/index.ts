@@ -12,6 +12,235 @@
  * - SSR & concurrency safe by default
  */
 
+import { type CacheControl, type CacheOptions, createLruCache } from "./cache"
+import { createEmitter, type Emitter, type LokatCoreEvents, trackLoad } from "./events"
+import { createFormatters, createIntlCache, type Formatters } from "./format"
+import {
+  compileMessages,
+  type MessageAst,
+  type MessageFunction,
+  type PrecompiledMessages,
+} from "./icu"
+import type { PseudoLocalizer } from "./pseudo"
+import { type RevalidateOptions, sameDictionary, watchRevalidation } from "./revalidate"
+import { type LokatState, type LokatStateEntry, parseState, serializeState } from "./state"
+import {
+  checkDictionaryVersion,
+  type DictionaryManifest,
+  type DictionaryVersionError,
+  hashDictionary,
+  manifestKey,
+} from "./version"
+
+/**
+ * A single interpolation value. Functions are invoked at format time, which lets
+ * reactive adapters pass accessors (e.g. Solid signals) without unwrapping them first.
+ */
+export type TranslateParamValue = string | number | (() => string | number)
+
+/**
+ * Named interpolation values for `{name}` placeholders.
+ */
+export type TranslateParams = Record<string, TranslateParamValue>
+
+/**
+ * CLDR plural categories used by the `<key>_<category>` key convention.
+ */
+export type PluralCategory = "zero" | "one" | "two" | "few" | "many" | "other"
+
+/**
+ * Placeholder names of a template literal type, including ICU argument names
+ * (option bodies are scanned, option keys are not).
+ * @example ParamNames<"Hi {name}, {count} new"> // "name" | "count"
+ * @example ParamNames<"{g, select, female {She} other {They}} sent {n, plural, other {# items}}"> // "g" | "n"
+ */
+export type ParamNames<S extends string> = ScanParams<S, "text", [], never>
+
+/** Internal: the first `{` or `}` in `S` as `[brace, before, after]`, or `[]`. */
+type NextBrace<S extends string> = S extends `${infer A}{${infer B}`
+  ? A extends `${infer C}}${infer D}`
+    ? ["}", C, `${D}{${B}`]
+    : ["{", A, B]
+  : S extends `${infer C}}${infer D}`
+    ? ["}", C, D]
+    : []
+
+/** Internal: `name` from `name`, ` name ` or `name, plural, ...`. */
+type ArgName<S extends string> = S extends `${infer N},${string}` ? Trim<N> : Trim<S>
+
+type Trim<S extends string> = S extends ` ${infer R}`
+  ? Trim<R>
+  : S extends `${infer R} `
+    ? Trim<R>
+    : S
+
+/**
+ * Internal brace scanner. `text`: literal text (top level or an option body);
+ * `options`: between the option bodies of an ICU argument. `Depth` counts open bodies.
+ */
+type ScanParams<
+  S extends string,
+  Mode extends "text" | "options",
+  Depth extends unknown[],
+  Acc extends string,
+> = NextBrace<S> extends [infer Brace, string, infer After extends string]
+  ? Mode extends "options"
+    ? Brace extends "{"
+      ? ScanParams<After, "text", [...Depth, 0], Acc>
+      : ScanParams<After, "text", Depth, Acc>
+    : Brace extends "}"
+      ? Depth extends [...infer Outer, unknown]
+        ? ScanParams<After, "options", Outer, Acc>
+        : ScanParams<After, "text", Depth, Acc>
+      : NextBrace<After> extends [infer Inner, infer Arg extends string, infer Rest extends string]
+        ? Inner extends "}"
+          ? ScanParams<Rest, "text", Depth, Acc | ArgName<Arg>>
+          : ScanParams<Rest, "text", [...Depth, 0], Acc | ArgName<Arg>>
+        : Acc
+  : Acc
+
+/** Internal: `"a"` for `"a_one"`, `"a_other"`, ... */
+type PluralBase<K extends string> = K extends `${infer B}_${PluralCategory}` ? B : never
+
+/** Internal: template(s) behind a key; plural base keys yield the union of their variants. */
+type TemplateOf<D extends Record<string, string>, K extends string> = K extends keyof D
+  ? D[K]
+  : D[`${K}_${PluralCategory}` & keyof D]
+
+/**
+ * Keys accepted by a translator over dictionary type `D`: its own keys plus plural
+ * base keys (`"cart.items"` for `"cart.items_one"` / `"cart.items_other"`).
+ */
+export type TranslationKey<D extends Record<string, string>> =
+  | (keyof D & string)
+  | PluralBase<keyof D & string>
+
+/**
+ * Params accepted for `key` in `D`: exactly its placeholder names (plus `count` for plural
+ * base keys). Falls back to `TranslateParams` when templates are not literal types.
+ */
+export type TranslationParams<
+  D extends Record<string, string>,
+  K extends string,
+> = string extends TemplateOf<D, K>
+  ? TranslateParams
+  : { [P in ParamNames<TemplateOf<D, K>>]: TranslateParamValue } & (K extends keyof D
+      ? unknown
+      : { count: number | (() => number) })
+
+/** Internal: params are required when the template has placeholders (or is a plural). */
+type TranslationArgs<
+  D extends Record<string, string>,
+  K extends string,
+> = string extends TemplateOf<D, K>
+  ? [params?: TranslateParams]
+  : [ParamNames<TemplateOf<D, K>>] extends [never]
+    ? K extends keyof D
+      ? [params?: Record<string, never>]
+      : [params: TranslationParams<D, K>]
+    : [params: TranslationParams<D, K>]
+
+/**
+ * Translator function returned by `createT`.
+ *
+ * - `t(key)`: O(1) lookup, zero allocation; returns the value or the key when missing.
+ * - `t(key, params)`: substitutes `{name}` placeholders; unknown placeholders are kept verbatim.
+ * - `t(key, { count })`: selects the CLDR plural variant `key_<category>` (see `createTranslator`).
+ *
+ * Typing
+ * - `D` is a dictionary type (e.g. emitted by `@lokat/gen`). With literal template values,
+ *   `t` only accepts known keys and checks each key's parameter names; the default
+ *   `Record<string, string>` accepts any key.
+ *
+ * @example
+ * type Dict = { "home.title": "Welcome, {name}"; "cart.items_one": "{count} item"; "cart.items_other": "{count} items" }
+ * declare const t: Translator<Dict>
+ * t("home.title", { name: "Ada" }) // ok
+ * t("cart.items", { count: 2 }) // ok
+ * t("hoem.title") // type error: unknown key
+ */
+export type Translator<D extends Record<string, string> = Record<string, string>> = <
+  K extends TranslationKey<D>,
+>(
+  key: K,
+  ...params: TranslationArgs<D, K>
+) => string
+
+/**
+ * Resolve an `Intl.PluralRules` object for a locale (`undefined` = runtime default).
+ */
+export type PluralRulesResolver = (locale: string | undefined) => Intl.PluralRules
+
+/**
+ * Options for `createTranslator`.
+ */
+export interface TranslatorOptions {
+  /** BCP 47 tag used for plural selection; `undefined` uses the runtime default locale. */
+  locale?: string | undefined
+  /** Plural rules provider; pass a shared `createPluralRules()` to reuse rule objects. */
+  pluralRules?: PluralRulesResolver
+  /** Called with the key and `locale` whenever the key fallback fires. */
+  onMissingKey?: ((key: string, locale: string | undefined) => void) | undefined
+  /** Compiled ICU messages by key (see `compileMessages`); they take precedence over `dict`. */
+  messages?: ReadonlyMap<string, MessageFunction> | undefined
+  /** Text returned for a missing key instead of the key itself (e.g. `pseudoMissing`). */
+  fallback?: ((key: string) => string) | undefined
+}
+
+/**
+ * Response-like loader used by `createLokat`; `globalThis.fetch` satisfies it.
+ * `init.signal` is provided when `timeout` is configured.
+ */
+export type LokatFetcher = (
+  input: string,
+  init?: { signal?: AbortSignal },
+) => Promise<{ json(): unknown }>
+
+/**
+ * Per-call options for `LokatInstance.load`.
+ */
+export interface LoadOptions {
+  /** Namespaces to load lazily; omitted or empty loads the whole locale. */
+  namespaces?: readonly string[]
+  /**
+   * Stop waiting: the call rejects with `signal.reason`. This cancels nothing. The shared
+   * single-flight fetch is not aborted, even when no caller is left waiting; it keeps
+   * running, including its `retries` and backoff, and still fills the cache when it
+   * succeeds. Use `timeout` to bound it, and `cache.invalidate` to drop its result.
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * Nested dictionary as authored by translators: `{ home: { title: "..." } }`.
+ * Flattened to dot-notation keys (`"home.title"`) by `flattenDictionary`.
+ */
+export type NestedDictionary = { [key: string]: string | NestedDictionary }
+
+/**
+ * Error raised by `flattenDictionary` when two paths flatten to the same key,
+ * e.g. `{ "a.b": "x", a: { b: "y" } }`. Identify it by `name === "DictionaryKeyCollisionError"`.
+ */
+export interface DictionaryKeyCollisionError extends Error {
+  name: "DictionaryKeyCollisionError"
+  /** The flattened key produced more than once. */
+  key: string
+}
+
+/**
+ * Error raised by `validate: "strict"` (and for non-object payloads in any mode).
+ * Identify it by `name === "DictionaryValidationError"`.
+ */
+export interface DictionaryValidationError extends Error {
+  name: "DictionaryValidationError"
+  /** Locale whose payload failed validation. */
+  locale: string
+  /** Resolved URL the payload was loaded from. */
+  source: string
+  /** Keys whose values are not strings (empty when the payload itself is not an object). */
+  keys: string[]
+}
+
 /**
  * Configuration options for the ultra-lightweight Lokat core.
  *
@@ -28,12 +257,15 @@
 export interface LokatOptions {
   /**
    * Resolve a URL (or any fetchable input) for a given locale.
+   * When `load` is called with namespaces, it is invoked once per `(locale, namespace)`.
    * @example
    * const opts: LokatOptions = {
    *   resolveLocaleUrl: (locale) => `/locales/${locale}.json`
    * }
+   * @example Namespaced layout (`<locale>/<namespace>.json`, as read by `@lokat/gen`)
+   * resolveLocaleUrl: (locale, ns) => `/locales/${locale}/${ns ?? "common"}.json`
    */
-  resolveLocaleUrl: (locale: string) => string
+  resolveLocaleUrl: (locale: string, namespace?: string) => string
 
   /**
    * Optional fetch function. Defaults to `globalThis.fetch` when available.
@@ -42,13 +274,146 @@ export interface LokatOptions {
    * Provide a custom fetcher for environments without `fetch`, or to integrate
    * with bespoke loaders (e.g., precompiled dictionaries, file system reads in SSR).
    */
-  fetcher?: (input: string) => Promise<{ json(): unknown }>
+  fetcher?: LokatFetcher
+
+  /**
+   * Per-attempt time limit in milliseconds (fetch + JSON parse). On expiry the attempt's
+   * signal is aborted and it fails with a `TimeoutError`. Unset: no limit.
+   */
+  timeout?: number
+
+  /** Extra attempts after a failed fetch (including timeouts). Defaults to `0`. */
+  retries?: number
+
+  /**
+   * Delay before retry `attempt` (0-based) in milliseconds. A number is the base of an
+   * exponential backoff (`base * 2 ** attempt`). Defaults to `200`.
+   */
+  retryDelay?: number | ((attempt: number) => number)
+
+  /**
+   * Opt-in runtime check of each loaded payload, once per fetch (after retries).
+   * - `"strict"`: reject the load with a `DictionaryValidationError` listing the invalid keys.
+   * - `"sanitize"`: drop non-string values (nested objects, `null`, numbers, ...) and keep the rest.
+   *
+   * Payloads that are not plain objects are rejected in both modes. Unset: values are
+   * trusted as-is for minimal overhead.
+   */
+  validate?: "strict" | "sanitize"
+
+  /** Called with the invalid keys of a payload when `validate` finds any. */
+  onInvalidKeys?: (keys: string[], locale: string, source: string) => void
+
+  /**
+   * Flatten nested JSON payloads (`{ home: { title } }`) into dot-notation keys
+   * (`"home.title"`) once per fetch, before `validate`. Pass `{ separator }` to join
+   * segments with something other than `"."`. Colliding paths reject the load with a
+   * `DictionaryKeyCollisionError`.
+   */
+  flatten?: boolean | { separator?: string }
+
+  /**
+   * Enable ICU MessageFormat (`{n, plural, ...}`, `{g, select, ...}`, nested) by passing
+   * `parseMessage`. Values with ICU arguments are compiled once per fetch, after `validate`;
+   * plain `{name}` templates keep the default path. A syntax error rejects the load with a
+   * `MessageFormatError` naming the key.
+   * @example
+   * import { createLokat, parseMessage } from "@lokat/core"
+   * createLokat({ resolveLocaleUrl, parseMessage })
+   */
+  parseMessage?: (message: string) => MessageAst
+
+  /**
+   * ICU ASTs precompiled by `@lokat/gen` (`i18n.messages.ts`), by locale then source message.
+   * Used instead of parsing, so bundles that omit `parseMessage` do not ship the parser. A
+   * value that no longer matches its source (e.g. after revalidation) is parsed instead.
+   */
+  precompiled?: PrecompiledMessages
+
+  /**
+   * Locales to fill missing keys from, in priority order, after the requested locale.
+   * Either a static list or a function of the requested locale.
+   *
+   * The chain is fetched (one fetch per locale, shared across chains) and merged once
+   * into a single flat dictionary at load time; lookups stay a single property read.
+   * Only the requested locale is required: a fallback that fails to load is skipped
+   * (reported to `onError`) and retried by the next `load`.
+   *
+   * @example
+   * // "pt-BR" -> "pt" -> "en"
+   * fallbackLocales: (locale) => [locale.split("-")[0] as string, "en"]
+   */
+  fallbackLocales?: readonly string[] | ((locale: string) => readonly string[])
+
+  /**
+   * Called with load failures that do not reject the load: a fallback locale (or one of its
+   * namespaces) that failed after `retries`, and was left out of the merged dictionary.
+   */
+  onError?: (error: unknown, locale: string, namespace?: string) => void
+
+  /**
+   * Opt-in report of untranslated keys: called whenever a translator falls back to the key.
+   * `locale` is the one passed to (or inferred by) `createT`, if any.
+   *
+   * Only lookups that miss are checked, so hits cost nothing extra. Misses are also
+   * emitted as `missingKey` events (see `LokatInstance.on`). See `createMissingKeyCollector`
+   * for a de-duplicating sink.
+   */
+  onMissingKey?: (key: string, locale: string | undefined) => void
+
+  /**
+   * Memory policy for fetched dictionaries: `maxEntries` (LRU, counted per locale or
+   * locale + namespace) and `ttl` in ms. Unbounded by default; see `LokatInstance.cache`.
+   * @example
+   * // edge worker serving many locales: keep the 20 most recent, refresh hourly
+   * cache: { maxEntries: 20, ttl: 3_600_000 }
+   */
+  cache?: CacheOptions
+
+  /**
+   * Stale-while-revalidate: `load` keeps resolving cached dictionaries immediately, while
+   * they are refetched in the background every `interval` ms and/or when the page regains
+   * focus. Changed entries replace the cached ones; `onUpdate(locale)` tells you to reload
+   * and rebuild translators. Call `dispose()` to stop.
+   * @example revalidate: { interval: 300_000, onFocus: true, onUpdate: (l) => rerender(l) }
+   */
+  revalidate?: RevalidateOptions
+
+  /**
+   * Snapshot from the server's `serialize()` (string or parsed); seeds the cache at creation,
+   * so `load` resolves the server's dictionaries without fetching. Same as calling `hydrate`.
+   */
+  initialState?: LokatState | string
+
+  /**
+   * Expected content hash per dictionary (`i18n.manifest.ts` from `@lokat/gen`), keyed by
+   * `"<locale>"` or `"<locale>/<namespace>"`. Every fetched or hydrated dictionary is checked
+   * against it, so a stale CDN file or server snapshot is noticed; see `onVersionMismatch`.
+   */
+  manifest?: DictionaryManifest
+
+  /**
+   * Called with a `DictionaryVersionError` when a dictionary does not match `manifest`.
+   * The dictionary is still used: stale content beats none.
+   */
+  onVersionMismatch?: (error: DictionaryVersionError) => void
+
+  /**
+   * Pseudo-localize every translator (UI testing): values get accents, `~` padding and
+   * `[...]` markers with placeholders kept, and missing keys render as `[!! key !!]`.
+   * Loaded, cached and serialized dictionaries stay unchanged; `createT` reads a pseudo copy.
+   * Injected like `parseMessage`, so bundles without it do not ship the transform.
+   * @example pseudo: import.meta.env.DEV ? createPseudoLocalizer() : undefined
+   */
+  pseudo?: PseudoLocalizer | undefined
 }
 
 /**
  * A Lokat core instance API.
+ *
+ * @typeParam D Dictionary type used to type-check translator keys and params.
  */
-export interface LokatInstance {
+export interface LokatInstance<D extends Record<string, string> = Record<string, string>> {
   /**
    * Load and cache the flat dictionary for `locale` within this instance.
    *
@@ -56,11 +421,19 @@ export interface LokatInstance {
    * - First call: performs one fetch + one JSON parse per locale.
    * - Subsequent calls: return the same resolved promise per locale (single-flight).
    * - Cache scope: per instance; no global caching.
+   * - With `fallbackLocales`: resolves the chain and merges it once; the requested
+   *   locale wins, missing keys come from the next locale in the chain.
+   * - With `namespaces`: fetches each `(locale, namespace)` once (single-flight) and
+   *   merges them into one flat dictionary; later namespaces win on key collisions.
+   * - Failures (after `retries`) are evicted from the cache so the next call refetches.
+   * - With the `cache` option: least recently used entries beyond `maxEntries`, and entries
+   *   older than `ttl`, are dropped and refetched on the next call.
    *
    * @param locale Locale identifier (string)
+   * @param request Namespaces to load, or `LoadOptions` (`namespaces`, `signal`).
    * @returns A promise resolving to a flat dictionary of `{ key: value }`.
    */
-  load(locale: string): Promise<Record<string, string>>
+  load(locale: string, request?: readonly string[] | LoadOptions): Promise<Record<string, string>>
 
   /**
    * Create a translator function bound to the specified dictionary.
@@ -68,11 +441,91 @@ export interface LokatInstance {
    * Performance
    * - O(1) lookup: `dict[key]`.
    * - Zero allocation per call; returns the value or the key when missing.
+   * - With `params`, each template is parsed once per dictionary and reused.
+   * - Plural rules are cached per locale within the instance.
    *
    * @param dict A flat dictionary mapping keys to localized strings.
-   * @returns A translator function: `(key) => dict[key] ?? key`.
+   * @param locale Locale for plural selection; defaults to the locale `dict` was loaded for.
+   * @returns A translator function: `(key, params?) => string`.
+   */
+  createT(dict: Record<string, string>, locale?: string): Translator<D>
+
+  /**
+   * Number, currency, date, relative-time and list formatters bound to `locale`.
+   *
+   * `Intl` objects are cached per locale + options within the instance, and the
+   * returned object is reused for the same locale.
+   *
+   * @example
+   * const f = i18n.format("de")
+   * f.currency(9.5, "EUR") // "9,50 €"
+   */
+  format(locale: string): Formatters
+
+  /**
+   * Script-safe JSON snapshot of every dictionary loaded so far (see `serializeState`),
+   * for embedding in server-rendered HTML. Pending and failed loads are left out.
+   *
+   * @param locale Locale the page was rendered with, recorded as `state.locale`.
+   * @example
+   * html += `<script id="lokat" type="application/json">${lokat.serialize(locale)}</script>`
+   */
+  serialize(locale?: string): string
+
+  /**
+   * Seed the cache from a `serialize()` snapshot; later `load` calls for those locales and
+   * namespaces resolve without fetching. Entries already cached are kept.
+   *
+   * @throws TypeError when `state` is not a Lokat snapshot.
+   * @example
+   * lokat.hydrate(document.getElementById("lokat")!.textContent!)
+   */
+  hydrate(state: LokatState | string): void
+
+  /**
+   * Inspect and drop cached dictionaries. `invalidate(locale)` drops every namespace of the
+   * locale and every merged fallback/namespace result that used it, so the next `load`
+   * refetches; dictionaries already returned keep working.
+   * @example
+   * lokat.cache.invalidate("en") // after publishing new translations
+   */
+  cache: CacheControl
+
+  /**
+   * Refetch every loaded dictionary (or those of `locale`) in the background, replacing
+   * cached entries whose content changed; failed refetches keep the cached one. Later
+   * `load` calls return the fresh dictionaries.
+   *
+   * @returns The locales whose content changed.
+   */
+  revalidate(locale?: string): Promise<string[]>
+
+  /**
+   * Content hash of the cached dictionary for `locale` (or one of its namespaces), as
+   * computed by `hashDictionary` and recorded in `serialize()` snapshots. `undefined` until
+   * it has loaded.
+   * @example lokat.version("en", "common") === i18nManifest["en/common"]
    */
-  createT(dict: Record<string, string>): (key: string) => string
+  version(locale: string, namespace?: string): string | undefined
+
+  /**
+   * Subscribe to instance events; returns the unsubscribe function.
+   * - `loadStart` / `loadSuccess` / `loadError`: every `load` call, with `cached` (no new
+   *   fetch needed) and, once settled, `duration` in ms. Background revalidation is silent.
+   * - `missingKey`: a translator from `createT` fell back to the key. Translators check for
+   *   misses only when created with `onMissingKey` set or a `missingKey` listener subscribed,
+   *   so subscribe before calling `createT`.
+   *
+   * Listener errors are rethrown asynchronously and never fail the load or translation.
+   * @example
+   * const off = lokat.on("loadSuccess", (e) => metrics.timing("i18n.load", e.duration, e))
+   */
+  on: Emitter<LokatCoreEvents>["on"]
+
+  /**
+   * Stop background revalidation (interval timer and focus listeners).
+   */
+  dispose(): void
 }
 
 /**
@@ -83,6 +536,8 @@ export interface LokatInstance {
  * - SSR/Edge safe: instance-scoped cache, concurrency-friendly.
  * - Minimal scope: loading a locale dictionary and performing O(1) translations.
  *
+ * @typeParam D Dictionary type (e.g. `I18nDict` from `@lokat/gen`); restricts `t` to known
+ *   keys and their parameter names. Defaults to any string key.
  * @param options Lokat configuration (URL resolver, optional fetcher).
  * @returns A `LokatInstance` exposing `load(locale)` and `createT(dict)`.
  *
@@ -98,6 +553,18 @@ export interface LokatInstance {
  * const t = lokat.createT(dict)
  *
  * t("home.title") // => "Welcome" or key fallback
+ * t("home.greeting", { name: "Ada" }) // "Hello, {name}!" => "Hello, Ada!"
+ * t("cart.items", { count: 3 }) // reads "cart.items_other" => "3 items"
+ * ```
+ *
+ * @example Type-safe keys (dictionary type emitted by `@lokat/gen`)
+ * ```ts
+ * import type { I18nDict } from "./i18n/generated/i18n.dict"
+ *
+ * const lokat = createLokat<I18nDict>({ resolveLocaleUrl: (l) => `/locales/${l}.json` })
+ * const t = lokat.createT(await lokat.load("en"))
+ * t("home.title", { name: "Ada" }) // keys and `{name}` params are checked
+ * t("hoem.title") // type error
  * ```
  *
  * @example SSR/Edge safe per-request instance
@@ -111,6 +578,17 @@ export interface LokatInstance {
  * const html = render({ title: t("home.title") })
  * ```
  *
+ * @example SSR state transfer (no refetch on the client)
+ * ```ts
+ * // server: embed what this request loaded
+ * html += `<script id="lokat" type="application/json">${lokat.serialize(locale)}</script>`
+ *
+ * // client: seed the cache before the first load
+ * const state = parseState(document.getElementById("lokat")!.textContent!)
+ * const lokat = createLokat({ resolveLocaleUrl, initialState: state })
+ * const t = lokat.createT(await lokat.load(state.locale ?? "en")) // no fetch
+ * ```
+ *
  * @example Maximum performance: precompiled dictionary (no fetch)
  * ```ts
  * import { createLokat } from "@lokat/core"
@@ -135,44 +613,760 @@ export interface LokatInstance {
  * for (let i = 0; i < 100_000; i++) t("ui.ok")
  * ```
  */
-export function createLokat(options: LokatOptions): LokatInstance {
-  const { resolveLocaleUrl } = options
+export function createLokat<D extends Record<string, string> = Record<string, string>>(
+  options: LokatOptions,
+): LokatInstance<D> {
+  const { resolveLocaleUrl, fallbackLocales, onMissingKey, timeout, retries = 0 } = options
+  const { retryDelay = 200, validate, onInvalidKeys, flatten } = options
+  const { parseMessage, manifest, onVersionMismatch } = options
+  const { pseudo } = options
+  const fallback = pseudo?.missing
+  const precompiled =
+    pseudo && options.precompiled ? pseudo.messages(options.precompiled) : options.precompiled
+  const icu = parseMessage !== undefined || precompiled !== undefined
+  const separator = typeof flatten === "object" ? flatten.separator : undefined
   // Prefer provided fetcher; fallback to globalThis.fetch if available.
-  const fetcher =
-    options.fetcher ?? (globalThis.fetch as (input: string) => Promise<{ json(): unknown }>)
+  const fetcher = options.fetcher ?? (globalThis.fetch as LokatFetcher)
 
-  // Instance-scoped cache: locale -> Promise<dict>
-  const cache = new Map<string, Promise<Record<string, string>>>()
+  // Instance-scoped cache: locale (or locale + namespace) -> Promise<dict>, bounded by `cache`.
+  // Dropping an entry also drops what was derived from it.
+  const cache = createLruCache<string, Promise<Record<string, string>>>(options.cache, dropDerived)
+  // Merged dictionaries (fallback chain and/or namespaces): request id -> Promise<merged dict>.
+  // Bounded like `cache`; expiry follows the entries each one was built from.
+  const { maxEntries } = options.cache ?? {}
+  const combined = createLruCache<string, Promise<Record<string, string>>>(
+    maxEntries === undefined ? {} : { maxEntries },
+    (id) => combinedDeps.delete(id),
+  )
+  // Merged request id -> the cache ids it was built from.
+  const combinedDeps = new Map<string, readonly string[]>()
+  // Loaded dict -> its locale, so `createT(dict)` can pick plural rules without being told.
+  const dictLocales = new WeakMap<Record<string, string>, string>()
+  // Instance-scoped plural rules: one `Intl.PluralRules` per locale.
+  const pluralRules = createPluralRules()
+  // Instance-scoped `Intl` formatters: one object per locale + options.
+  const intl = createIntlCache()
+  const formatters = new Map<string, Formatters>()
+  // Dict -> its compiled ICU messages (only when `parseMessage` or `precompiled` is set).
+  const compiled = new WeakMap<Record<string, string>, ReadonlyMap<string, MessageFunction>>()
+  // Resolved cache entries by id, for `serialize`.
+  const settled = new Map<string, LokatStateEntry>()
+  // Subscribers of `on`.
+  const events = createEmitter<LokatCoreEvents>()
+  const reportMissing = (key: string, locale: string | undefined) => {
+    onMissingKey?.(key, locale)
+    if (events.has("missingKey")) events.emit("missingKey", { key, locale })
+  }
+  // Dict -> its content hash, computed once on demand.
+  const hashes = new WeakMap<Record<string, string>, string>()
+  // Dict -> its pseudo-localized copy (only with `pseudo`).
+  const pseudoDicts = new WeakMap<Record<string, string>, Record<string, string>>()
 
   /**
-   * Internal: load dictionary for a locale, with instance-level caching.
+   * Internal: fetch a single locale (or one of its namespaces), with instance-level caching.
    */
-  function load(locale: string): Promise<Record<string, string>> {
-    let promise = cache.get(locale)
+  function fetchLocale(locale: string, namespace?: string): Promise<Record<string, string>> {
+    const id = entryId(locale, namespace)
+    let promise = cache.get(id)
     if (!promise) {
-      const url = resolveLocaleUrl(locale)
-      // Defer to provided fetcher; no runtime validation for minimal overhead.
-      const p = fetcher(url).then((r) => r.json() as Promise<Record<string, string>>)
+      const p = fetchDict(locale, namespace).then((dict) => {
+        // Not when evicted or invalidated while loading.
+        if (cache.peek(id) === wrapped) {
+          settled.set(id, namespace === undefined ? { locale, dict } : { locale, namespace, dict })
+        }
+        return dict
+      })
       // Prevent cache poisoning: if the loader rejects, remove entry so future
       // attempts can retry instead of reusing a rejected promise.
-      const wrapped = p.catch((err) => {
-        cache.delete(locale)
+      const wrapped: Promise<Record<string, string>> = p.catch((err) => {
+        if (cache.peek(id) === wrapped) cache.delete(id)
         throw err
       })
       promise = wrapped
-      cache.set(locale, promise)
+      cache.set(id, promise)
     }
     return promise
   }
 
+  /**
+   * Internal: fetch and prepare (flatten, validate, compile) one dictionary, uncached.
+   */
+  function fetchDict(locale: string, namespace?: string): Promise<Record<string, string>> {
+    const url =
+      namespace === undefined ? resolveLocaleUrl(locale) : resolveLocaleUrl(locale, namespace)
+    return fetchWithRetry(url).then((payload) => {
+      if (flatten && isPlainObject(payload)) payload = flattenDictionary(payload, separator)
+      const dict = validate ? check(payload, locale, url) : payload
+      verify(dict, locale, namespace)
+      dictLocales.set(dict, locale)
+      if (icu) compiled.set(dict, compile(dict, locale))
+      return dict
+    })
+  }
+
+  /**
+   * Internal: one fetch + JSON parse, bounded by `timeout` when configured.
+   */
+  function attempt(url: string): Promise<Record<string, string>> {
+    // Defer to provided fetcher; no runtime validation for minimal overhead.
+    if (timeout === undefined) {
+      return fetcher(url).then((r) => r.json() as Promise<Record<string, string>>)
+    }
+    const controller = new AbortController()
+    let timer: ReturnType<typeof setTimeout> | undefined
+    // Race as well as abort: custom fetchers may ignore the signal.
+    const expired = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const err = new Error(`Loading ${url} timed out after ${timeout}ms`)
+        err.name = "TimeoutError"
+        controller.abort(err)
+        reject(err)
+      }, timeout)
+    })
+    const run = fetcher(url, { signal: controller.signal }).then(
+      (r) => r.json() as Promise<Record<string, string>>,
+    )
+    return Promise.race([run, expired]).finally(() => clearTimeout(timer))
+  }
+
+  /**
+   * Internal: `attempt` plus up to `retries` retries with backoff.
+   */
+  async function fetchWithRetry(url: string): Promise<Record<string, string>> {
+    for (let i = 0; ; i++) {
+      try {
+        return await attempt(url)
+      } catch (err) {
+        if (i >= retries) throw err
+        const delay = typeof retryDelay === "function" ? retryDelay(i) : retryDelay * 2 ** i
+        await new Promise((resolve) => setTimeout(resolve, delay))
+      }
+    }
+  }
+
+  /**
+   * Internal: validate a payload's shape once; reject or sanitize non-string values.
+   */
+  function check(payload: unknown, locale: string, source: string): Record<string, string> {
+    if (!isPlainObject(payload)) {
+      throw validationError("payload is not an object", locale, source, [])
+    }
+    const dict = payload as Record<string, unknown>
+    const keys: string[] = []
+    for (const key in dict) if (typeof dict[key] !== "string") keys.push(key)
+    if (!keys.length) return dict as Record<string, string>
+    onInvalidKeys?.(keys, locale, source)
+    if (validate === "strict") {
+      const list = keys.map((k) => JSON.stringify(k)).join(", ")
+      throw validationError(`non-string values at ${list}`, locale, source, keys)
+    }
+    const clean: Record<string, unknown> = { ...dict }
+    for (const key of keys) delete clean[key]
+    return clean as Record<string, string>
+  }
+
+  /**
+   * Internal: report a dictionary that does not match its `manifest` entry.
+   */
+  function verify(dict: Record<string, string>, locale: string, namespace?: string) {
+    const expected = manifest?.[manifestKey(locale, namespace)]
+    if (expected === undefined) return
+    const err = checkDictionaryVersion(dict, expected, locale, namespace)
+    if (err) onVersionMismatch?.(err)
+    else hashes.set(dict, expected)
+  }
+
+  /**
+   * Internal: content hash of `dict`, memoized.
+   */
+  function hashOf(dict: Record<string, string>): string {
+    let hash = hashes.get(dict)
+    if (hash === undefined) {
+      hash = hashDictionary(dict)
+      hashes.set(dict, hash)
+    }
+    return hash
+  }
+
+  /**
+   * Internal: requested locale followed by its distinct fallbacks.
+   */
+  function chainOf(locale: string): string[] {
+    const chain = [locale]
+    const extra = typeof fallbackLocales === "function" ? fallbackLocales(locale) : fallbackLocales
+    if (extra) for (const l of extra) if (!chain.includes(l)) chain.push(l)
+    return chain
+  }
+
+  /**
+   * Internal: load dictionary for a locale; the caller's `signal` only detaches this call.
+   */
+  function load(
+    locale: string,
+    request?: readonly string[] | LoadOptions,
+  ): Promise<Record<string, string>> {
+    const { namespaces, signal }: LoadOptions = isNamespaceList(request)
+      ? { namespaces: request }
+      : (request ?? {})
+    if (!signal) return loadTracked(locale, namespaces)
+    if (signal.aborted) return Promise.reject(signal.reason)
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(signal.reason)
+      signal.addEventListener("abort", onAbort, { once: true })
+      loadTracked(locale, namespaces)
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener("abort", onAbort))
+    })
+  }
+
+  /**
+   * Internal: `loadShared`, reported to load event listeners.
+   */
+  function loadTracked(
+    locale: string,
+    namespaces?: readonly string[],
+  ): Promise<Record<string, string>> {
+    const nss = namespaces?.length ? namespaces : undefined
+    return trackLoad(
+      events,
+      nss ? { locale, namespaces: nss } : { locale },
+      () => {
+        const chain = fallbackLocales ? chainOf(locale) : [locale]
+        const parts: readonly (string | undefined)[] = nss ?? [undefined]
+        return chain.every((l) => parts.every((ns) => cache.has(entryId(l, ns))))
+      },
+      () => loadShared(locale, nss),
+    )
+  }
+
+  /**
+   * Internal: shared (single-flight) dictionary for a locale, merging its fallback
+   * chain and requested namespaces once per distinct request.
+   */
+  function loadShared(
+    locale: string,
+    namespaces?: readonly string[],
+  ): Promise<Record<string, string>> {
+    const nss = namespaces?.length ? namespaces : undefined
+    if (!fallbackLocales && (!nss || nss.length === 1)) return fetchLocale(locale, nss?.[0])
+    const id = nss ? [locale, ...nss].join("\0") : locale
+    let promise = combined.get(id)
+    // Reuse a merge only while every entry it was built from is still cached (and fresh).
+    if (promise && !combinedDeps.get(id)?.every((dep) => cache.get(dep))) {
+      dropCombined(id)
+      promise = undefined
+    }
+    if (!promise) {
+      const chain = fallbackLocales ? chainOf(locale) : [locale]
+      const parts: readonly (string | undefined)[] = nss ?? [undefined]
+      if (chain.length === 1 && parts.length === 1) return fetchLocale(locale, parts[0])
+      const sources: Promise<Record<string, string>>[] = []
+      const deps: string[] = []
+      for (const l of chain) {
+        for (const ns of parts) {
+          const source = fetchLocale(l, ns)
+          // Fallbacks are optional: a failed one is left out (its cache entry is evicted,
+          // so the next load rebuilds this merge and retries it).
+          sources.push(
+            l === locale
+              ? source
+              : source.catch((err: unknown) => {
+                  options.onError?.(err, l, ns)
+                  return {}
+                }),
+          )
+          deps.push(entryId(l, ns))
+        }
+      }
+      const p = Promise.all(sources).then((dicts) => {
+        // Lowest priority first so the requested locale overrides its fallbacks;
+        // within a locale, later namespaces override earlier ones.
+        const members: [Record<string, string>, string][] = []
+        for (let c = chain.length - 1; c >= 0; c--) {
+          for (let n = 0; n < parts.length; n++) {
+            members.push([
+              dicts[c * parts.length + n] as Record<string, string>,
+              chain[c] as string,
+            ])
+          }
+        }
+        const merged = merge(members)
+        dictLocales.set(merged, locale)
+        // The pseudo copy is merged from pseudo copies of the members, so each message is
+        // compiled with its own locale's ASTs and plural rules.
+        if (pseudo) {
+          pseudoDicts.set(merged, merge(members.map(([d, l]) => [pseudoOf(pseudo, d), l])))
+        }
+        return merged
+      })
+      // Same anti-poisoning rule as single-locale loads.
+      const wrapped: Promise<Record<string, string>> = p.catch((err) => {
+        if (combined.peek(id) === wrapped) dropCombined(id)
+        throw err
+      })
+      promise = wrapped
+      combined.set(id, promise)
+      combinedDeps.set(id, deps)
+    }
+    return promise
+  }
+
+  /**
+   * Internal: merge `members` (dictionary and its locale, lowest priority first), keeping
+   * each compiled message paired with the value that won the merge.
+   */
+  function merge(members: readonly [Record<string, string>, string][]): Record<string, string> {
+    const merged: Record<string, string> = {}
+    const messages = new Map<string, MessageFunction>()
+    for (const [dict, l] of members) {
+      Object.assign(merged, dict)
+      if (!icu) continue
+      let own = compiled.get(dict)
+      if (!own) {
+        own = compile(dict, l)
+        compiled.set(dict, own)
+      }
+      for (const key in dict) {
+        const message = own.get(key)
+        if (message) messages.set(key, message)
+        else messages.delete(key)
+      }
+    }
+    if (icu) compiled.set(merged, messages)
+    return merged
+  }
+
   /**
    * Internal: create an O(1) translator bound to a given dictionary.
    */
-  function createT(dict: Record<string, string>) {
-    return (key: string): string => dict[key] ?? key
+  function createT(dict: Record<string, string>, locale = dictLocales.get(dict)): Translator<D> {
+    const source = pseudo ? pseudoOf(pseudo, dict) : dict
+    let messages = compiled.get(source)
+    if (icu && !messages) {
+      // Dictionaries not loaded by this instance (e.g. SSR-injected) are compiled once here.
+      messages = compile(source, locale)
+      compiled.set(source, messages)
+    }
+    return createTranslator(source, {
+      locale,
+      pluralRules,
+      // Without a hook or listener the translator carries no check.
+      onMissingKey: onMissingKey || events.has("missingKey") ? reportMissing : undefined,
+      messages,
+      fallback,
+    })
+  }
+
+  /**
+   * Internal: pseudo-localized copy of `dict`, memoized.
+   */
+  function pseudoOf(
+    localizer: PseudoLocalizer,
+    dict: Record<string, string>,
+  ): Record<string, string> {
+    let copy = pseudoDicts.get(dict)
+    if (!copy) {
+      copy = localizer.dictionary(dict)
+      pseudoDicts.set(dict, copy)
+    }
+    return copy
+  }
+
+  /**
+   * Internal: compile the ICU messages of `dict`, preferring precompiled ASTs.
+   */
+  function compile(dict: Record<string, string>, locale: string | undefined) {
+    return compileMessages(dict, {
+      locale,
+      pluralRules,
+      intl,
+      parseMessage,
+      precompiled: locale === undefined ? undefined : precompiled?.[locale],
+    })
+  }
+
+  /**
+   * Internal: formatters bound to `locale`, shared per locale.
+   */
+  function format(locale: string): Formatters {
+    let f = formatters.get(locale)
+    if (!f) {
+      f = createFormatters(locale, intl)
+      formatters.set(locale, f)
+    }
+    return f
+  }
+
+  /**
+   * Internal: snapshot of the resolved cache entries.
+   */
+  function serialize(locale?: string): string {
+    const entries = [...settled.values()].map((entry) => ({
+      ...entry,
+      version: hashOf(entry.dict),
+    }))
+    return serializeState(locale === undefined ? { entries } : { locale, entries })
+  }
+
+  /**
+   * Internal: seed the cache with resolved entries from a snapshot.
+   */
+  function hydrate(state: LokatState | string): void {
+    for (const entry of parseState(state).entries) {
+      const id = entryId(entry.locale, entry.namespace)
+      if (cache.has(id)) continue
+      const { locale, dict } = entry
+      verify(dict, locale, entry.namespace)
+      dictLocales.set(dict, locale)
+      if (icu) compiled.set(dict, compile(dict, locale))
+      settled.set(id, entry)
+      cache.set(id, Promise.resolve(dict))
+    }
+  }
+
+  /**
+   * Internal: forget what was derived from cache entry `id` (snapshot, merged results).
+   */
+  function dropDerived(id: string) {
+    settled.delete(id)
+    for (const [key, deps] of combinedDeps) if (deps.includes(id)) dropCombined(key)
+  }
+
+  /**
+   * Internal: refetch resolved entries (all, or those of `locale`) and replace the ones
+   * whose content changed. Failed refetches keep the cached dictionary.
+   */
+  async function revalidate(locale?: string): Promise<string[]> {
+    const changed = new Set<string>()
+    const stale = [...settled].filter(([id]) => locale === undefined || localeOf(id) === locale)
+    await Promise.all(
+      stale.map(async ([id, entry]) => {
+        const before = cache.peek(id)
+        let fresh: Record<string, string>
+        try {
+          fresh = await fetchDict(entry.locale, entry.namespace)
+        } catch {
+          return
+        }
+        // Skip entries invalidated or reloaded meanwhile, and refetches that changed nothing.
+        if (cache.peek(id) !== before || sameDictionary(entry.dict, fresh)) return
+        dropDerived(id)
+        cache.set(id, Promise.resolve(fresh))
+        settled.set(id, { ...entry, dict: fresh })
+        changed.add(entry.locale)
+      }),
+    )
+    for (const l of changed) options.revalidate?.onUpdate?.(l)
+    return [...changed]
+  }
+
+  const { interval, onFocus } = options.revalidate ?? {}
+  const dispose =
+    interval !== undefined || onFocus
+      ? watchRevalidation(options.revalidate as RevalidateOptions, () => revalidate())
+      : () => {}
+
+  /**
+   * Internal: forget a merged result.
+   */
+  function dropCombined(id: string) {
+    combined.delete(id)
+    combinedDeps.delete(id)
   }
 
-  return { load, createT }
+  const control: CacheControl = {
+    has: (locale) => cache.entries().some((e) => localeOf(e.key) === locale),
+    invalidate(locale) {
+      let dropped = false
+      for (const { key } of cache.entries()) {
+        if (localeOf(key) === locale) dropped = cache.delete(key) || dropped
+      }
+      return dropped
+    },
+    clear: () => cache.clear(),
+    entries: () =>
+      cache.entries().map(({ key, createdAt }) => {
+        const [locale = "", namespace] = key.split("\0")
+        return namespace === undefined ? { locale, createdAt } : { locale, namespace, createdAt }
+      }),
+  }
+
+  /**
+   * Internal: hash of the resolved cache entry.
+   */
+  function version(locale: string, namespace?: string): string | undefined {
+    const entry = settled.get(entryId(locale, namespace))
+    return entry && hashOf(entry.dict)
+  }
+
+  if (options.initialState !== undefined) hydrate(options.initialState)
+
+  return {
+    load,
+    createT,
+    format,
+    serialize,
+    hydrate,
+    cache: control,
+    revalidate,
+    version,
+    on: events.on,
+    dispose,
+  }
+}
+
+/**
+ * Internal: cache id of a locale or one of its namespaces.
+ * NUL cannot appear in locale tags or file names, so ids never collide.
+ */
+function entryId(locale: string, namespace: string | undefined): string {
+  return namespace === undefined ? locale : `${locale}\0${namespace}`
+}
+
+/**
+ * Internal: locale of a cache id.
+ */
+function localeOf(id: string): string {
+  const end = id.indexOf("\0")
+  return end === -1 ? id : id.slice(0, end)
+}
+
+/**
+ * Flatten a nested dictionary into dot-notation keys (or `separator`-joined keys).
+ *
+ * Arrays and other non-object values are kept as leaves (see `validate` to reject them).
+ *
+ * @throws DictionaryKeyCollisionError when two paths produce the same key.
+ *
+ * @example
+ * flattenDictionary({ home: { title: "Welcome" }, ok: "OK" })
+ * // => { "home.title": "Welcome", ok: "OK" }
+ */
+export function flattenDictionary(
+  nested: NestedDictionary | Record<string, unknown>,
+  separator = ".",
+): Record<string, string> {
+  const out: Record<string, string> = {}
+  const walk = (node: Record<string, unknown>, prefix: string | undefined) => {
+    for (const key in node) {
+      const value = node[key]
+      const path = prefix === undefined ? key : `${prefix}${separator}${key}`
+      if (isPlainObject(value)) {
+        walk(value, path)
+      } else if (Object.hasOwn(out, path)) {
+        const err = new Error(`Dictionary key collision while flattening: "${path}"`)
+        throw Object.assign(err, { name: "DictionaryKeyCollisionError" as const, key: path })
+      } else {
+        out[path] = value as string
+      }
+    }
+  }
+  walk(nested, undefined)
+  return out
+}
+
+/**
+ * Internal: `true` for non-null, non-array objects (JSON objects).
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+}
+
+/**
+ * Internal: build a `DictionaryValidationError` without introducing a class.
+ */
+function validationError(
+  reason: string,
+  locale: string,
+  source: string,
+  keys: string[],
+): DictionaryValidationError {
+  const err = new Error(`Invalid dictionary for "${locale}" (${source}): ${reason}`)
+  return Object.assign(err, { name: "DictionaryValidationError" as const, locale, source, keys })
+}
+
+/**
+ * Internal: narrow `load`'s second argument (`Array.isArray` does not narrow readonly arrays).
+ */
+function isNamespaceList(
+  request: readonly string[] | LoadOptions | undefined,
+): request is readonly string[] {
+  return Array.isArray(request)
+}
+
+/**
+ * Create a plural rules resolver that caches one `Intl.PluralRules` per locale.
+ *
+ * @example
+ * const rules = createPluralRules()
+ * rules("pl").select(5) // "many"
+ */
+export function createPluralRules(): PluralRulesResolver {
+  const cache = new Map<string, Intl.PluralRules>()
+  return (locale) => {
+    const id = locale ?? ""
+    let rules = cache.get(id)
+    if (!rules) {
+      rules = new Intl.PluralRules(locale)
+      cache.set(id, rules)
+    }
+    return rules
+  }
+}
+
+// `{name}` placeholder. The capture group makes `split` yield alternating
+// literal / parameter-name segments: "Hi {name}!" -> ["Hi ", "name", "!"].
+const PLACEHOLDER = /\{([\w.-]+)\}/
+
+/**
+ * Internal: substitute parameters into a pre-split template.
+ */
+function render(parts: readonly string[], params: TranslateParams): string {
+  let out = parts[0] as string
+  for (let i = 1; i < parts.length; i += 2) {
+    const name = parts[i] as string
+    const value = params[name]
+    out += value === undefined ? `{${name}}` : typeof value === "function" ? value() : value
+    out += parts[i + 1] as string
+  }
+  return out
+}
+
+/**
+ * Internal: pick the plural variant of `key` for `count`.
+ * Lookup order: `key_<category>` -> `key_other` -> `key`.
+ */
+function pluralKey(
+  dict: Record<string, string>,
+  key: string,
+  count: number,
+  rules: Intl.PluralRules,
+): string {
+  const variant = `${key}_${rules.select(count)}`
+  if (dict[variant] !== undefined) return variant
+  const other = `${key}_other`
+  return dict[other] !== undefined ? other : key
+}
+
+/**
+ * Create a translator bound to `dict`, independent of any instance.
+ *
+ * Used by `createT` and by framework adapters that manage their own dictionaries.
+ * Parameterless calls stay a single property read; templates are split on their
+ * first parameterized call and memoized for the lifetime of the translator.
+ *
+ * Plurals
+ * - A numeric `count` param selects a CLDR variant via `Intl.PluralRules` for `options.locale`.
+ * - Key convention: `<key>_<category>` with `zero`, `one`, `two`, `few`, `many`, `other`;
+ *   falls back to `<key>_other`, then to `<key>` itself.
+ * - `{count}` is interpolated like any other param.
+ *
+ * Missing keys
+ * - With `options.onMissingKey` or `options.fallback`, a checking variant is returned instead;
+ *   without them the translator carries no check at all.
+ *
+ * ICU messages
+ * - Keys in `options.messages` call their compiled message instead (see `compileMessages`);
+ *   an empty or absent map leaves the translator unchanged.
+ *
+ * @example
+ * const t = createTranslator(
+ *   { greet: "Hello, {name}!", "cart.items_one": "{count} item", "cart.items_other": "{count} items" },
+ *   { locale: "en" },
+ * )
+ * t("greet", { name: "Ada" }) // "Hello, Ada!"
+ * t("cart.items", { count: 1 }) // "1 item"
+ */
+export function createTranslator(
+  dict: Record<string, string>,
+  options: TranslatorOptions = {},
+): Translator {
+  const { locale, onMissingKey, messages, fallback } = options
+  // Resolved on the first plural call; parameterless translators never touch Intl.
+  let rules: Intl.PluralRules | undefined
+  // Parsed templates for this dictionary: key -> alternating literal/name segments.
+  const templates = new Map<string, readonly string[]>()
+
+  function format(key: string, params: TranslateParams): string {
+    const { count } = params
+    if (count !== undefined) {
+      const n = typeof count === "function" ? count() : count
+      if (typeof n === "number") {
+        rules ??= (options.pluralRules ?? createPluralRules())(locale)
+        key = pluralKey(dict, key, n, rules)
+      }
+    }
+    if (onMissingKey && dict[key] === undefined) onMissingKey(key, locale)
+    let parts = templates.get(key)
+    if (!parts) {
+      parts = (dict[key] ?? (fallback ? fallback(key) : key)).split(PLACEHOLDER)
+      templates.set(key, parts)
+    }
+    return parts.length === 1 ? (parts[0] as string) : render(parts, params)
+  }
+
+  const translate =
+    !onMissingKey && !fallback
+      ? (key: string, params?: TranslateParams): string =>
+          params === undefined ? (dict[key] ?? key) : format(key, params)
+      : (key: string, params?: TranslateParams): string => {
+          if (params !== undefined) return format(key, params)
+          const value = dict[key]
+          if (value !== undefined) return value
+          onMissingKey?.(key, locale)
+          return fallback ? fallback(key) : key
+        }
+  if (!messages?.size) return translate
+  return (key: string, params?: TranslateParams): string => {
+    const message = messages.get(key)
+    return message ? message(params) : translate(key, params)
+  }
+}
+
+/**
+ * De-duplicating sink for `onMissingKey`, grouping keys by locale.
+ */
+export interface MissingKeyCollector<L = string | undefined> {
+  /** Pass as `onMissingKey`; records each `(locale, key)` pair once. */
+  onMissingKey: (key: string, locale: L) => void
+  /** Snapshot `{ [locale]: sortedKeys }`; also makes `JSON.stringify(collector)` work. */
+  toJSON(): Record<string, string[]>
+  /** Forget every recorded miss. */
+  clear(): void
+}
+
+/**
+ * Create a collector for untranslated keys, e.g. to feed a translation pipeline.
+ *
+ * @param localeKey Maps a locale to its group name; defaults to `String(locale)`.
+ *
+ * @example
+ * const missing = createMissingKeyCollector()
+ * const i18n = createLokat({ resolveLocaleUrl, onMissingKey: missing.onMissingKey })
+ * // ... render ...
+ * await upload(JSON.stringify(missing)) // {"en":["checkout.title"]}
+ */
+export function createMissingKeyCollector<L = string | undefined>(
+  localeKey: (locale: L) => string = String,
+): MissingKeyCollector<L> {
+  const seen = new Map<string, Set<string>>()
+  return {
+    onMissingKey: (key, locale) => {
+      const group = localeKey(locale)
+      let keys = seen.get(group)
+      if (!keys) {
+        keys = new Set()
+        seen.set(group, keys)
+      }
+      keys.add(key)
+    },
+    toJSON: () => {
+      const out: Record<string, string[]> = {}
+      for (const [group, keys] of seen) out[group] = [...keys].sort()
+      return out
+    },
+    clear: () => seen.clear(),
+  }
 }
 
 /**
@@ -193,3 +1387,106 @@ export type { LokatOptions as CreateLokatOptions }
 export function createTA(arr: readonly string[]): (id: number) => string {
   return (id: number): string => arr[id] as string
 }
+
+export {
+  type CacheControl,
+  type CacheEntry,
+  type CacheOptions,
+  createLruCache,
+  type LruCache,
+} from "./cache"
+export {
+  type HtmlAttributes,
+  htmlAttributes,
+  type TextDirection,
+  textDirection,
+} from "./direction"
+export {
+  createEmitter,
+  type Emitter,
+  type LoadErrorEvent,
+  type LoadEvent,
+  type LoadEvents,
+  type LoadStartEvent,
+  type LoadSuccessEvent,
+  type LocaleChangeEvent,
+  type LokatCoreEvents,
+  type LokatEvents,
+  type MissingKeyEvent,
+  trackLoad,
+} from "./events"
+export {
+  createFormatters,
+  createIntlCache,
+  type Formatters,
+  type IntlCache,
+} from "./format"
+export {
+  type ArgumentNode,
+  type CompileMessageOptions,
+  type CompileMessagesOptions,
+  compileMessage,
+  compileMessages,
+  hasMessageFormat,
+  type MessageAst,
+  type MessageFormatError,
+  type MessageFunction,
+  type MessageNode,
+  type PluralNode,
+  type PoundNode,
+  type PrecompiledMessages,
+  parseMessage,
+  type SelectNode,
+} from "./icu"
+export {
+  type DetectLocaleOptions,
+  detectLocale,
+  fromAcceptLanguage,
+  fromCookie,
+  fromNavigator,
+  fromPathPrefix,
+  type LocaleRequest,
+  type LocaleSource,
+  matchLocale,
+  type NegotiateLocaleOptions,
+  negotiateLocale,
+  parseAcceptLanguage,
+} from "./negotiate"
+export {
+  type CookieStoreOptions,
+  combineStores,
+  type LocaleStore,
+  type LocaleStoreOptions,
+  type PathStoreOptions,
+  persistCookie,
+  persistLocalStorage,
+  persistPathPrefix,
+  persistQuery,
+} from "./persist"
+export {
+  createPseudoLocalizer,
+  type PseudoLocalizer,
+  type PseudoOptions,
+  pseudoDictionary,
+  pseudoLocalize,
+  pseudoMessages,
+  pseudoMissing,
+} from "./pseudo"
+export {
+  type RevalidateOptions,
+  sameDictionary,
+  watchRevalidation,
+} from "./revalidate"
+export {
+  type LokatState,
+  type LokatStateEntry,
+  parseState,
+  serializeState,
+} from "./state"
+export {
+  checkDictionaryVersion,
+  type DictionaryManifest,
+  type DictionaryVersionError,
+  hashDictionary,
+  manifestKey,
+} from "./version"
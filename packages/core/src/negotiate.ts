@@ -0,0 +1,213 @@
+/**
+ * Locale negotiation: pick the best supported locale from the user's preferences.
+ *
+ * Pure functions, no globals read at import time. Sources are lazy thunks, so
+ * browser-only sources (navigator, document.cookie) are safe to list on the server.
+ */
+
+/**
+ * A lazily evaluated preference source. Returns one tag, a list ordered by
+ * preference, or nothing.
+ */
+export type LocaleSource = () => string | readonly string[] | null | undefined
+
+/**
+ * Options for {@link negotiateLocale}.
+ */
+export interface NegotiateLocaleOptions<L extends string = string> {
+  /** Locales the app ships, in the casing it expects back. */
+  supported: readonly L[]
+  /** Returned when no source yields a supported locale. */
+  defaultLocale: L
+  /** Tried in order; the first source with a supported match wins. */
+  sources: readonly LocaleSource[]
+}
+
+/**
+ * Minimal Fetch-API request shape accepted by {@link detectLocale}.
+ */
+export interface LocaleRequest {
+  url: string
+  headers: { get(name: string): string | null }
+}
+
+/**
+ * Options for {@link detectLocale}.
+ */
+export interface DetectLocaleOptions<L extends string = string> {
+  supported: readonly L[]
+  defaultLocale: L
+  /** Cookie holding an explicit user choice. Default: `"locale"`; `false` disables it. */
+  cookie?: string | false
+  /** Honor a `/<locale>/...` URL prefix. Default: `true`. */
+  pathPrefix?: boolean
+}
+
+/**
+ * Parses an `Accept-Language` header into tags ordered by q-value (highest first).
+ * Equal weights keep header order; `q=0`, `*` and malformed entries are dropped.
+ * @example parseAcceptLanguage("fr;q=0.8, en-US, *;q=0.1") // ["en-US", "fr"]
+ */
+export function parseAcceptLanguage(header: string | null | undefined): string[] {
+  if (!header) return []
+  const entries: Array<{ tag: string; q: number; i: number }> = []
+  const parts = header.split(",")
+
+  for (let i = 0; i < parts.length; i++) {
+    const [rawTag = "", ...attrs] = (parts[i] as string).split(";")
+    const tag = rawTag.trim()
+    if (!tag || tag === "*" || !/^[A-Za-z]{1,8}(-[A-Za-z0-9]{1,8})*$/.test(tag)) continue
+
+    let q = 1
+    for (const attr of attrs) {
+      const m = /^\s*q\s*=\s*([0-9.]+)\s*$/i.exec(attr)
+      if (m) q = Number(m[1])
+    }
+    if (!(q > 0 && q <= 1)) continue
+    entries.push({ tag, q, i })
+  }
+
+  return entries.sort((a, b) => b.q - a.q || a.i - b.i).map((e) => e.tag)
+}
+
+/**
+ * Matches preferred tags against `supported`, case-insensitively and accepting `_` for `-`.
+ *
+ * For each preference in order: BCP 47 lookup (RFC 4647 §3.4) truncates subtags
+ * (`zh-Hant-TW` → `zh-Hant` → `zh`) until a supported tag matches; failing that, the
+ * first supported tag in the same language (`en` → `en-US`) is taken. Later
+ * preferences are only considered when an earlier one has no match at all.
+ *
+ * @returns The supported tag as written in `supported`, or `undefined`.
+ */
+export function matchLocale<L extends string>(
+  preferred: string | readonly string[],
+  supported: readonly L[],
+): L | undefined {
+  const byTag = new Map<string, L>()
+  for (const s of supported) {
+    const key = normalize(s)
+    if (!byTag.has(key)) byTag.set(key, s)
+  }
+
+  for (const raw of typeof preferred === "string" ? [preferred] : preferred) {
+    let range = normalize(raw)
+    if (!range) continue
+    const lang = range.split("-")[0] as string
+
+    while (range) {
+      const hit = byTag.get(range)
+      if (hit !== undefined) return hit
+      range = truncate(range)
+    }
+
+    for (const [key, s] of byTag) {
+      if (key.startsWith(`${lang}-`)) return s
+    }
+  }
+  return undefined
+}
+
+/**
+ * Returns the first supported match from `sources`, or `defaultLocale`.
+ * @example
+ * negotiateLocale({
+ *   supported: ["en", "id"],
+ *   defaultLocale: "en",
+ *   sources: [fromCookie(), fromNavigator()],
+ * })
+ */
+export function negotiateLocale<L extends string>(options: NegotiateLocaleOptions<L>): L {
+  const { supported, defaultLocale, sources } = options
+  for (const source of sources) {
+    const value = source()
+    if (!value) continue
+    const hit = matchLocale(value, supported)
+    if (hit !== undefined) return hit
+  }
+  return defaultLocale
+}
+
+/**
+ * Source reading an `Accept-Language` header value.
+ */
+export function fromAcceptLanguage(header: string | null | undefined): LocaleSource {
+  return () => parseAcceptLanguage(header)
+}
+
+/**
+ * Source reading `navigator.languages` (falling back to `navigator.language`).
+ * Yields nothing when no navigator is available, e.g. on the server.
+ */
+export function fromNavigator(
+  nav: { languages?: readonly string[]; language?: string } | undefined = globalThis.navigator,
+): LocaleSource {
+  return () => (nav?.languages?.length ? nav.languages : nav?.language)
+}
+
+/**
+ * Source reading a cookie. Without `cookieHeader` it reads `document.cookie` when present.
+ * @param name Cookie name. Default: `"locale"`.
+ */
+export function fromCookie(name = "locale", cookieHeader?: string | null): LocaleSource {
+  return () => {
+    const header =
+      cookieHeader ?? (globalThis as { document?: { cookie?: string } }).document?.cookie
+    if (!header) return undefined
+    for (const part of header.split(";")) {
+      const eq = part.indexOf("=")
+      if (eq !== -1 && part.slice(0, eq).trim() === name) {
+        try {
+          return decodeURIComponent(part.slice(eq + 1).trim())
+        } catch {
+          return undefined
+        }
+      }
+    }
+    return undefined
+  }
+}
+
+/**
+ * Source reading the first path segment, e.g. `id` from `/id/docs`.
+ * Accepts a pathname or a full URL.
+ */
+export function fromPathPrefix(pathOrUrl: string): LocaleSource {
+  return () => {
+    const path = /^[a-z][a-z0-9+.-]*:/i.test(pathOrUrl) ? new URL(pathOrUrl).pathname : pathOrUrl
+    return path.split(/[/?#]/).find(Boolean)
+  }
+}
+
+/**
+ * Server-side shortcut: negotiates from a request's URL prefix, locale cookie and
+ * `Accept-Language` header, in that order.
+ * @example
+ * const locale = detectLocale(req, { supported: ["en", "id"], defaultLocale: "en" })
+ */
+export function detectLocale<L extends string>(
+  request: LocaleRequest,
+  options: DetectLocaleOptions<L>,
+): L {
+  const { cookie = "locale", pathPrefix = true, ...rest } = options
+  const sources: LocaleSource[] = []
+  if (pathPrefix) sources.push(fromPathPrefix(request.url))
+  if (cookie !== false) sources.push(fromCookie(cookie, request.headers.get("cookie") ?? ""))
+  sources.push(fromAcceptLanguage(request.headers.get("accept-language")))
+  return negotiateLocale({ ...rest, sources })
+}
+
+/** Internal: lowercase, `_` → `-`, trimmed. */
+function normalize(tag: string): string {
+  return tag.trim().replace(/_/g, "-").toLowerCase()
+}
+
+/** Internal: drops the last subtag, plus a dangling singleton (`x`, `u`, ...). */
+function truncate(range: string): string {
+  let i = range.lastIndexOf("-")
+  if (i === -1) return ""
+  let next = range.slice(0, i)
+  i = next.lastIndexOf("-")
+  if (i !== -1 && next.length - i === 2) next = next.slice(0, i)
+  return next
+}
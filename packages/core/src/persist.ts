@@ -0,0 +1,201 @@
+/**
+ * Locale persistence: remember the user's choice across reloads.
+ *
+ * A store reads the saved locale on start and writes it on change. The built-in
+ * stores touch browser globals only when called and do nothing where they are
+ * missing (SSR, workers), so they are safe to create on the server.
+ */
+import { fromCookie, fromPathPrefix, matchLocale } from "./negotiate"
+
+/**
+ * Where a locale choice is kept. `read` returns `undefined` when nothing usable is saved.
+ * Implement it for custom backends (IndexedDB, a user profile API, a router, ...).
+ */
+export interface LocaleStore<L = string> {
+  read(): L | undefined
+  write(locale: L): void
+}
+
+/**
+ * Options shared by the built-in stores.
+ */
+export interface LocaleStoreOptions<L extends string = string> {
+  /**
+   * Only restore a saved locale that matches one of these (via `matchLocale`, so `en-US`
+   * restores `en`). Without it any non-empty value is restored as-is.
+   */
+  supported?: readonly L[]
+}
+
+/**
+ * Options for {@link persistCookie}.
+ */
+export interface CookieStoreOptions<L extends string = string> extends LocaleStoreOptions<L> {
+  /** Lifetime in seconds. Default: one year. */
+  maxAge?: number
+  /** Default: `"/"`. */
+  path?: string
+  domain?: string
+  /** Default: `"Lax"`. */
+  sameSite?: "Strict" | "Lax" | "None"
+  /** Default: `true` when the page is served over HTTPS. */
+  secure?: boolean
+}
+
+/**
+ * Options for {@link persistPathPrefix}.
+ */
+export interface PathStoreOptions<L extends string = string> {
+  /** Locales that may appear as the first path segment; required to tell them from routes. */
+  supported: readonly L[]
+}
+
+// Browser globals, read lazily: absent on the server and in workers.
+interface Web {
+  document?: { cookie: string }
+  location?: { href: string; pathname: string; search: string; protocol: string }
+  history?: { state: unknown; replaceState(data: unknown, unused: string, url: string): void }
+  localStorage?: { getItem(key: string): string | null; setItem(key: string, value: string): void }
+}
+const web = (): Web => globalThis as Web
+
+/**
+ * Internal: keep a saved value only when it is usable.
+ */
+function accept<L extends string>(
+  value: string | null | undefined,
+  supported: readonly L[] | undefined,
+): L | undefined {
+  if (!value) return undefined
+  return supported ? matchLocale(value, supported) : (value as L)
+}
+
+/**
+ * Internal: swap the current URL without a navigation or a history entry.
+ */
+function replaceUrl(url: URL): void {
+  const { history } = web()
+  history?.replaceState(history.state, "", url.href)
+}
+
+/**
+ * Store backed by `localStorage`. Storage errors (private mode, quota, disabled
+ * storage) are swallowed: the choice is simply not remembered.
+ * @example persistLocalStorage("lang", { supported: ["en", "id"] })
+ */
+export function persistLocalStorage<L extends string = string>(
+  key = "locale",
+  options: LocaleStoreOptions<L> = {},
+): LocaleStore<L> {
+  return {
+    read() {
+      try {
+        return accept(web().localStorage?.getItem(key), options.supported)
+      } catch {
+        return undefined
+      }
+    },
+    write(locale) {
+      try {
+        web().localStorage?.setItem(key, locale)
+      } catch {
+        // Not remembered; the current session keeps working.
+      }
+    },
+  }
+}
+
+/**
+ * Store backed by a cookie, which the server can read too (see `detectLocale`), so
+ * SSR renders the remembered locale and hydration matches.
+ * @example persistCookie("locale", { maxAge: 60 * 60 * 24 * 30 })
+ */
+export function persistCookie<L extends string = string>(
+  name = "locale",
+  options: CookieStoreOptions<L> = {},
+): LocaleStore<L> {
+  const { maxAge = 31_536_000, path = "/", domain, sameSite = "Lax", secure } = options
+  return {
+    read: () => accept(fromCookie(name)() as string | undefined, options.supported),
+    write(locale) {
+      const { document, location } = web()
+      if (!document) return
+      let cookie = `${name}=${encodeURIComponent(locale)}; Max-Age=${maxAge}; Path=${path}`
+      if (domain) cookie += `; Domain=${domain}`
+      cookie += `; SameSite=${sameSite}`
+      if (secure ?? location?.protocol === "https:") cookie += "; Secure"
+      document.cookie = cookie
+    },
+  }
+}
+
+/**
+ * Store backed by the first path segment (`/id/docs`). `write` replaces that segment
+ * (or prepends one) with `history.replaceState`; apps with a router should write
+ * through the router instead, with a custom store.
+ * @example persistPathPrefix({ supported: ["en", "id"] })
+ */
+export function persistPathPrefix<L extends string>(options: PathStoreOptions<L>): LocaleStore<L> {
+  const { supported } = options
+  return {
+    read() {
+      const { location } = web()
+      if (!location) return undefined
+      return accept(fromPathPrefix(location.pathname)() as string | undefined, supported)
+    },
+    write(locale) {
+      const { location } = web()
+      if (!location) return
+      const url = new URL(location.href)
+      const [, first = "", ...rest] = url.pathname.split("/")
+      const tail = matchLocale(first, supported) === undefined ? [first, ...rest] : rest
+      url.pathname = `/${[locale, ...tail].join("/")}`
+      replaceUrl(url)
+    },
+  }
+}
+
+/**
+ * Store backed by a query parameter (`?lang=id`), updated with `history.replaceState`.
+ * @example persistQuery("lang", { supported: ["en", "id"] })
+ */
+export function persistQuery<L extends string = string>(
+  param = "lang",
+  options: LocaleStoreOptions<L> = {},
+): LocaleStore<L> {
+  return {
+    read() {
+      const { location } = web()
+      if (!location) return undefined
+      return accept(new URLSearchParams(location.search).get(param), options.supported)
+    },
+    write(locale) {
+      const { location } = web()
+      if (!location) return
+      const url = new URL(location.href)
+      url.searchParams.set(param, locale)
+      replaceUrl(url)
+    },
+  }
+}
+
+/**
+ * Combine stores: `read` returns the first saved locale, in order; `write` updates all.
+ * @example
+ * // a shared link wins over the remembered choice; both are kept up to date
+ * combineStores(persistQuery("lang"), persistLocalStorage())
+ */
+export function combineStores<L>(...stores: readonly LocaleStore<L>[]): LocaleStore<L> {
+  return {
+    read() {
+      for (const store of stores) {
+        const locale = store.read()
+        if (locale !== undefined) return locale
+      }
+      return undefined
+    },
+    write(locale) {
+      for (const store of stores) store.write(locale)
+    },
+  }
+}
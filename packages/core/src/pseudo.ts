@@ -0,0 +1,253 @@
+/**
+ * Pseudo-localization: a fake locale derived from the real one, for UI testing before
+ * translations arrive. Text gets accents (encoding and font issues show up), extra length
+ * (layout overflow shows up) and bracket markers (hard-coded and truncated strings show up).
+ *
+ * Placeholders, ICU syntax (quoted literals included) and rich-text tags are kept intact, so
+ * translators behave as usual. Instances take a `createPseudoLocalizer()` rather than a flag, so
+ * bundles that never pass one do not ship this module.
+ */
+import type { MessageAst, MessageNode, PrecompiledMessages } from "./icu"
+
+/**
+ * Options for pseudo-localization.
+ */
+export interface PseudoOptions {
+  /** Extra length as a fraction of the text length, padded with `~`. Default: `0.3`. */
+  expansion?: number
+  /** Markers around every value. Default: `["[", "]"]`. */
+  brackets?: readonly [string, string]
+  /** Text shown for a missing key (the translator's key fallback). Default: `[!! key !!]`. */
+  missing?: (key: string) => string
+}
+
+// ASCII letters and their accented look-alikes (one UTF-16 unit each, same order).
+const PLAIN = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz"
+const ACCENTED =
+  "\u00c5\u0181\u00c7\u00d0\u00c9\u0191\u011c\u0124\u00ce\u0134\u0136\u013b\u1e40"
+  + "\u00d1\u00d6\u00de\u01ea\u0154\u0160\u0162\u00db\u1e7c\u0174\u1e8a\u00dd\u017d"
+  + "\u00e5\u0180\u00e7\u00f0\u00e9\u0192\u011d\u0125\u00ee\u0135\u0137\u013c\u0271"
+  + "\u00f1\u00f6\u00fe\u01eb\u0155\u0161\u0163\u00fb\u1e7d\u0175\u1e8b\u00fd\u017e"
+
+// `<b>`, `</link>`, `<br/>`: rich-text markers (see `tRich`), kept verbatim.
+const TAG = /<\/?[A-Za-z][\w-]*\s*\/?>/y
+
+/**
+ * Internal: accent the letters of a literal text run, skipping tag markers.
+ * @returns The output and the run's length without tags.
+ */
+function accent(text: string): [string, number] {
+  let out = ""
+  let length = text.length
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i] as string
+    TAG.lastIndex = i
+    const tag = c === "<" ? TAG.exec(text) : null
+    if (tag) {
+      out += tag[0]
+      length -= tag[0].length
+      i += tag[0].length - 1
+    } else {
+      const k = PLAIN.indexOf(c)
+      out += k === -1 ? c : ACCENTED[k]
+    }
+  }
+  return [out, length]
+}
+
+/**
+ * Internal: `[open, padding + close]` for literal text of length `length`.
+ */
+function frame(length: number, options: PseudoOptions): [string, string] {
+  const { expansion = 0.3, brackets = ["[", "]"] } = options
+  return [brackets[0], "~".repeat(Math.ceil(length * expansion)) + brackets[1]]
+}
+
+/**
+ * Internal: literal text from `i` up to the end (or the `}` closing an ICU option body).
+ * @returns Output, the index it stopped at, and the literal length (longest ICU option counted).
+ */
+function scanText(src: string, i: number, body: boolean): [string, number, number] {
+  let out = ""
+  let length = 0
+  let start = i
+  while (i < src.length) {
+    const c = src[i]
+    if (c === "}" && body) break
+    const quote = c === "'" && isQuoteStart(src[i + 1], body)
+    if (c !== "{" && !quote) {
+      // `''` is a literal apostrophe: step over both, so the second does not open a quote.
+      i += c === "'" && src[i + 1] === "'" ? 2 : 1
+      continue
+    }
+    const [run, runLength] = accent(src.slice(start, i))
+    out += run
+    length += runLength
+    if (quote) {
+      // A quoted literal (`'{name}'`) is kept verbatim: accenting could unbalance its quotes.
+      const end = quoteEnd(src, i + 1)
+      out += src.slice(i, end)
+      length += end - i
+      i = end
+    } else {
+      const [arg, end, argLength] = scanArgument(src, i)
+      out += arg
+      length += argLength
+      i = end
+    }
+    start = i
+  }
+  const [run, runLength] = accent(src.slice(start, i))
+  return [out + run, i, length + runLength]
+}
+
+/**
+ * Internal: whether `'` followed by `next` opens an ICU quoted literal (before `{`, `}`, or
+ * `#` inside an option body).
+ */
+function isQuoteStart(next: string | undefined, body: boolean): boolean {
+  return next === "{" || next === "}" || (body && next === "#")
+}
+
+/**
+ * Internal: the index after the `'` closing a quoted literal whose content starts at `i`
+ * (`''` inside it is an escaped apostrophe).
+ */
+function quoteEnd(src: string, i: number): number {
+  while (i < src.length) {
+    if (src[i] === "'") {
+      if (src[i + 1] !== "'") return i + 1
+      i++
+    }
+    i++
+  }
+  return i
+}
+
+/**
+ * Internal: an argument starting at the `{` at `i`. `{name}` and `{x, number}` are kept;
+ * ICU option bodies (`one {...}`) are scanned as text.
+ */
+function scanArgument(src: string, i: number): [string, number, number] {
+  let j = i + 1
+  while (j < src.length && src[j] !== "{" && src[j] !== "}") j++
+  if (src[j] !== "{") return [src.slice(i, j + 1), j + 1, 0]
+  let out = src.slice(i, j)
+  let length = 0
+  while (src[j] === "{") {
+    const [body, end, bodyLength] = scanText(src, j + 1, true)
+    out += `{${body}}`
+    length = Math.max(length, bodyLength)
+    const start = end + 1
+    j = start
+    while (j < src.length && src[j] !== "{" && src[j] !== "}") j++
+    out += src.slice(start, j)
+  }
+  return [j < src.length ? `${out}}` : out, j + 1, length]
+}
+
+/**
+ * Pseudo-localize a message: accented letters, `~` padding and bracket markers. `{name}`
+ * placeholders, ICU arguments (only their option bodies are transformed), ICU quoted literals
+ * (`'{name}'`, `''`) and `<tag>` markers are kept, so the result interpolates and compiles like
+ * the original.
+ * @example pseudoLocalize("Hello, {name}!") // "[Ĥéļļö, {name}!~~~]"
+ */
+export function pseudoLocalize(message: string, options: PseudoOptions = {}): string {
+  const [out, , length] = scanText(message, 0, false)
+  const [open, close] = frame(length, options)
+  return open + out + close
+}
+
+/**
+ * `pseudoLocalize` over every value of a flat dictionary (or a generated array).
+ * @example pseudoDictionary({ "home.title": "Welcome" }) // { "home.title": "[Ŵéļçöɱé~~~]" }
+ */
+export function pseudoDictionary<T extends Readonly<Record<string, string>> | readonly string[]>(
+  dict: T,
+  options: PseudoOptions = {},
+): T {
+  if (Array.isArray(dict)) return dict.map((v: string) => pseudoLocalize(v, options)) as never
+  const out: Record<string, string> = {}
+  for (const [key, value] of Object.entries(dict)) out[key] = pseudoLocalize(value, options)
+  return out as T
+}
+
+/**
+ * Internal: transformed nodes and their literal length (longest ICU option counted).
+ */
+function pseudoNodes(ast: MessageAst): [MessageNode[], number] {
+  let length = 0
+  const nodes = ast.map((node): MessageNode => {
+    if (typeof node === "string") {
+      const [out, runLength] = accent(node)
+      length += runLength
+      return out
+    }
+    if (!("options" in node)) return node
+    let longest = 0
+    const options: Record<string, MessageAst> = {}
+    for (const [key, body] of Object.entries(node.options)) {
+      const [out, bodyLength] = pseudoNodes(body)
+      options[key] = out
+      longest = Math.max(longest, bodyLength)
+    }
+    length += longest
+    return { ...node, options }
+  })
+  return [nodes, length]
+}
+
+/**
+ * `pseudoLocalize` for precompiled ICU ASTs (from `@lokat/gen`), by locale then source, so
+ * bundles without `parseMessage` get pseudo-localized ICU messages too. Sources become their
+ * `pseudoLocalize` output, the values of `pseudoDictionary` copies.
+ */
+export function pseudoMessages(
+  precompiled: PrecompiledMessages,
+  options: PseudoOptions = {},
+): PrecompiledMessages {
+  const out: Record<string, Record<string, MessageAst>> = {}
+  for (const [locale, messages] of Object.entries(precompiled)) {
+    const mapped: Record<string, MessageAst> = {}
+    for (const [source, ast] of Object.entries(messages)) {
+      const [nodes, length] = pseudoNodes(ast)
+      const [open, close] = frame(length, options)
+      mapped[pseudoLocalize(source, options)] = [open, ...nodes, close]
+    }
+    out[locale] = mapped
+  }
+  return out
+}
+
+/**
+ * The default `missing` marker: `[!! key !!]`.
+ */
+export function pseudoMissing(key: string): string {
+  return `[!! ${key} !!]`
+}
+
+/**
+ * The pseudo-localization an instance applies (the `pseudo` option of `createLokat` and
+ * `dev.pseudo` of `createSolidLokat`).
+ */
+export interface PseudoLocalizer {
+  /** Pseudo copy of a loaded dictionary. */
+  dictionary(dict: Readonly<Record<string, string>>): Record<string, string>
+  /** Pseudo copy of precompiled ICU ASTs. */
+  messages(precompiled: PrecompiledMessages): PrecompiledMessages
+  /** Text shown for a missing key. */
+  missing(key: string): string
+}
+
+/**
+ * Create the pseudo-localizer instances take as `pseudo`.
+ * @example createLokat({ resolveLocaleUrl, pseudo: createPseudoLocalizer({ expansion: 0.5 }) })
+ */
+export function createPseudoLocalizer(options: PseudoOptions = {}): PseudoLocalizer {
+  return {
+    dictionary: (dict) => pseudoDictionary(dict, options),
+    messages: (precompiled) => pseudoMessages(precompiled, options),
+    missing: options.missing ?? pseudoMissing,
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Stale-while-revalidate: cached dictionaries are served immediately and refetched in
+ * the background, on an interval, when the page regains focus, or on demand.
+ */
+
+/**
+ * When to refetch cached dictionaries in the background. Loads never wait for it.
+ */
+export interface RevalidateOptions<L = string> {
+  /** Refetch every this many milliseconds. */
+  interval?: number
+  /** Refetch when the window regains focus or the page becomes visible (browser only). */
+  onFocus?: boolean
+  /** Called after a refetch brought new content for `locale` (and it was swapped in). */
+  onUpdate?: (locale: L) => void
+}
+
+/**
+ * Browser globals, read lazily: absent on the server and in workers.
+ */
+interface FocusTarget {
+  addEventListener?(type: string, listener: () => void): void
+  removeEventListener?(type: string, listener: () => void): void
+}
+
+/**
+ * Call `run` on the triggers in `options`; a trigger firing while a run is still
+ * pending is skipped. Interval timers do not keep a server process alive.
+ * @returns A function that stops watching.
+ * @example
+ * const stop = watchRevalidation({ interval: 300_000, onFocus: true }, () => i18n.revalidate())
+ */
+export function watchRevalidation(
+  options: RevalidateOptions<never>,
+  run: () => Promise<unknown>,
+): () => void {
+  let pending: Promise<unknown> | undefined
+  const trigger = () => {
+    if (pending) return
+    pending = run()
+      .catch(() => undefined)
+      .finally(() => {
+        pending = undefined
+      })
+  }
+  const stops: Array<() => void> = []
+
+  if (options.interval !== undefined) {
+    const timer = setInterval(trigger, options.interval)
+    ;(timer as { unref?: () => void }).unref?.()
+    stops.push(() => clearInterval(timer))
+  }
+  const { window, document } = globalThis as { window?: FocusTarget; document?: FocusTarget }
+  if (options.onFocus && window?.addEventListener && document?.addEventListener) {
+    const onVisible = () => {
+      if ((document as { visibilityState?: string }).visibilityState !== "hidden") trigger()
+    }
+    window.addEventListener("focus", trigger)
+    document.addEventListener("visibilitychange", onVisible)
+    stops.push(() => {
+      window.removeEventListener?.("focus", trigger)
+      document.removeEventListener?.("visibilitychange", onVisible)
+    })
+  }
+  return () => {
+    for (const stop of stops) stop()
+  }
+}
+
+/**
+ * Whether two dictionaries (flat objects or arrays) hold the same entries, so a
+ * refetch that changed nothing does not re-render anything.
+ */
+export function sameDictionary(
+  a: Readonly<Record<string, string>> | readonly string[],
+  b: Readonly<Record<string, string>> | readonly string[],
+): boolean {
+  if (a === b) return true
+  const keys = Object.keys(a)
+  if (keys.length !== Object.keys(b).length) return false
+  const x = a as Readonly<Record<string, unknown>>
+  const y = b as Readonly<Record<string, unknown>>
+  for (const key of keys) if (x[key] !== y[key] || !Object.hasOwn(y, key)) return false
+  return true
+}
@@ -0,0 +1,64 @@
+/**
+ * SSR state transfer: a snapshot of loaded dictionaries that the server embeds in the
+ * page and the client uses to seed its cache, so nothing the server used is refetched.
+ */
+
+/**
+ * One cached dictionary: a locale, or one namespace of it.
+ */
+export interface LokatStateEntry<L = string> {
+  locale: L
+  /** Set for namespaced loads (`load(locale, ["common"])`). */
+  namespace?: string
+  dict: Record<string, string>
+  /** Content hash of `dict` (`hashDictionary`) when the server recorded it. */
+  version?: string
+}
+
+/**
+ * Serializable snapshot of an instance: the locale being rendered and its loaded dictionaries.
+ */
+export interface LokatState<L = string> {
+  /** Locale the server rendered with; use it as the client's initial locale. */
+  locale?: L
+  entries: LokatStateEntry<L>[]
+}
+
+// Characters that could end a `<script>` element or a JS string literal early.
+const UNSAFE = /[<>&\u2028\u2029]/g
+const ESCAPES: Record<string, string> = {
+  "<": "\\u003c",
+  ">": "\\u003e",
+  "&": "\\u0026",
+  "\u2028": "\\u2028",
+  "\u2029": "\\u2029",
+}
+
+/**
+ * JSON for `state` that is safe to inline in HTML: `<`, `>`, `&`, U+2028 and U+2029 are
+ * `\u`-escaped, so a value like `</script>` cannot break out of the script element.
+ * The output is both valid JSON and a valid JS expression.
+ * @example
+ * `<script id="lokat-state" type="application/json">${serializeState(state)}</script>`
+ * `<script>window.__LOKAT__ = ${serializeState(state)}</script>`
+ */
+export function serializeState<L>(state: LokatState<L>): string {
+  return JSON.stringify(state).replace(UNSAFE, (c) => ESCAPES[c] as string)
+}
+
+/**
+ * Read a snapshot produced by `serializeState` (or the equivalent object).
+ * @throws TypeError when the input is not a Lokat state.
+ */
+export function parseState<L = string>(input: string | LokatState<L>): LokatState<L> {
+  const state: unknown = typeof input === "string" ? JSON.parse(input) : input
+  const entries = (state as { entries?: unknown } | null)?.entries
+  if (!Array.isArray(entries)) throw new TypeError("Invalid Lokat state: missing `entries`")
+  for (const entry of entries) {
+    const dict = (entry as { dict?: unknown } | null)?.dict
+    if (dict === null || typeof dict !== "object" || Array.isArray(dict)) {
+      throw new TypeError("Invalid Lokat state: entry without a `dict` object")
+    }
+  }
+  return state as LokatState<L>
+}
@@ -0,0 +1,95 @@
+/**
+ * Dictionary versions: content hashes that tell whether two copies of a dictionary
+ * match, e.g. the one the server rendered with and the one a CDN serves the client.
+ *
+ * `@lokat/gen` computes them at build time into a manifest (`i18n.manifest.ts`); the
+ * instances compare loaded dictionaries against it and expose their own hashes.
+ */
+
+/**
+ * Expected content hash per dictionary, keyed by `manifestKey(locale, namespace)`:
+ * `"en"` for a whole locale, `"en/common"` for one namespace of it.
+ * @example { "en/common": "1x3f9k2m0a7q", "id/common": "0p4s8d1v6b2c" }
+ */
+export type DictionaryManifest = Readonly<Record<string, string>>
+
+/**
+ * Reported when a dictionary's content hash differs from the expected one (a manifest
+ * entry or the server's snapshot). Identify it by `name === "DictionaryVersionError"`.
+ */
+export interface DictionaryVersionError extends Error {
+  name: "DictionaryVersionError"
+  /** Locale of the mismatching dictionary. */
+  locale: string
+  /** Set for namespaced dictionaries. */
+  namespace?: string
+  /** Hash it was expected to have. */
+  expected: string
+  /** Hash of the content actually loaded. */
+  actual: string
+}
+
+/**
+ * Manifest key of a locale or one of its namespaces.
+ * @example manifestKey("en", "common") // "en/common"
+ */
+export function manifestKey(locale: string, namespace?: string): string {
+  return namespace === undefined ? locale : `${locale}/${namespace}`
+}
+
+/**
+ * Deterministic content hash of a flat dictionary (or a generated array): the same entries
+ * give the same hash on every runtime, regardless of key order. Not cryptographic.
+ * @example hashDictionary({ hi: "Hi" }) === hashDictionary(await lokat.load("en"))
+ */
+export function hashDictionary(dict: Readonly<Record<string, string>> | readonly string[]): string {
+  // cyrb53: two 32-bit FNV-like lanes combined into a 53-bit result.
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  const feed = (s: string) => {
+    for (let i = 0; i <= s.length; i++) {
+      // Position `s.length` feeds a NUL, so `a` + `bc` and `ab` + `c` hash differently.
+      const c = i < s.length ? s.charCodeAt(i) : 0
+      h1 = Math.imul(h1 ^ c, 2654435761)
+      h2 = Math.imul(h2 ^ c, 1597334677)
+    }
+  }
+  const values = dict as Readonly<Record<string, unknown>>
+  for (const key of Object.keys(dict).sort()) {
+    feed(key)
+    feed(String(values[key]))
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)
+}
+
+/**
+ * Compare `dict` with its expected hash.
+ * @returns A `DictionaryVersionError` on mismatch; `undefined` when it matches or nothing
+ *   is expected.
+ * @example
+ * const err = checkDictionaryVersion(dict, manifest[manifestKey("en")], "en")
+ * if (err) report(err)
+ */
+export function checkDictionaryVersion(
+  dict: Readonly<Record<string, string>> | readonly string[],
+  expected: string | undefined,
+  locale: string,
+  namespace?: string,
+): DictionaryVersionError | undefined {
+  if (expected === undefined) return undefined
+  const actual = hashDictionary(dict)
+  if (actual === expected) return undefined
+  const err = new Error(
+    `Dictionary version mismatch for "${manifestKey(locale, namespace)}": expected ${expected}, got ${actual}`,
+  )
+  const fields = namespace === undefined ? {} : { namespace }
+  return Object.assign(err, {
+    name: "DictionaryVersionError" as const,
+    locale,
+    ...fields,
+    expected,
+    actual,
+  })
+}
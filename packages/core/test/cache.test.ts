@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it, setSystemTime } from "bun:test"
+import { type CacheOptions, createLokat, createLruCache } from "../src/index"
+
+function setup(calls: string[], cache?: CacheOptions, fallbackLocales?: readonly string[]) {
+  return createLokat({
+    resolveLocaleUrl: (locale, ns) => (ns ? `/${locale}/${ns}.json` : `/${locale}.json`),
+    fetcher: async (input) => {
+      calls.push(input)
+      return { json: async () => ({ from: input }) }
+    },
+    ...(cache ? { cache } : {}),
+    ...(fallbackLocales ? { fallbackLocales } : {}),
+  })
+}
+
+afterEach(() => {
+  setSystemTime()
+})
+
+describe("@lokat/core cache", () => {
+  it("evicts the least recently used entry beyond maxEntries", async () => {
+    const calls: string[] = []
+    const i18n = setup(calls, { maxEntries: 2 })
+    await i18n.load("en")
+    await i18n.load("id")
+    await i18n.load("en") // en is now the most recent
+    await i18n.load("fr") // evicts id
+    expect(i18n.cache.entries().map((e) => e.locale)).toEqual(["en", "fr"])
+    expect(i18n.cache.has("id")).toBe(false)
+
+    await i18n.load("id")
+    expect(calls).toEqual(["/en.json", "/id.json", "/fr.json", "/id.json"])
+  })
+
+  it("refetches entries older than ttl", async () => {
+    setSystemTime(new Date("2026-01-01T00:00:00Z"))
+    const calls: string[] = []
+    const i18n = setup(calls, { ttl: 60_000 })
+    await i18n.load("en")
+    setSystemTime(new Date("2026-01-01T00:00:59Z"))
+    await i18n.load("en")
+    expect(calls).toHaveLength(1)
+
+    setSystemTime(new Date("2026-01-01T00:01:00Z"))
+    expect(i18n.cache.has("en")).toBe(false)
+    await i18n.load("en")
+    expect(calls).toHaveLength(2)
+  })
+
+  it("invalidates every namespace of a locale and the merges that used it", async () => {
+    const calls: string[] = []
+    const i18n = setup(calls, undefined, ["en"])
+    const merged = await i18n.load("id", ["common", "home"])
+    expect(i18n.cache.entries()).toHaveLength(4)
+
+    expect(i18n.cache.invalidate("en")).toBe(true)
+    expect(i18n.cache.invalidate("en")).toBe(false)
+    expect(i18n.cache.entries().map((e) => `${e.locale}/${e.namespace}`)).toEqual([
+      "id/common",
+      "id/home",
+    ])
+    calls.length = 0
+    const again = await i18n.load("id", ["common", "home"])
+    expect(again).not.toBe(merged)
+    expect(calls).toEqual(["/en/common.json", "/en/home.json"])
+
+    i18n.cache.clear()
+    expect(i18n.cache.entries()).toEqual([])
+    expect(i18n.serialize()).toBe('{"entries":[]}')
+  })
+
+  it("refetches expired fallback locales of a merged load", async () => {
+    setSystemTime(new Date("2026-01-01T00:00:00Z"))
+    const calls: string[] = []
+    const i18n = setup(calls, { ttl: 10 }, ["en"])
+    const first = await i18n.load("pt")
+    expect(calls).toEqual(["/pt.json", "/en.json"])
+
+    setSystemTime(new Date("2026-01-01T00:00:00.030Z"))
+    const again = await i18n.load("pt")
+    expect(again).not.toBe(first)
+    expect(calls).toEqual(["/pt.json", "/en.json", "/pt.json", "/en.json"])
+    expect(i18n.cache.has("pt")).toBe(true)
+  })
+
+  it("refetches expired namespaces of a merged load", async () => {
+    setSystemTime(new Date("2026-01-01T00:00:00Z"))
+    const calls: string[] = []
+    const i18n = setup(calls, { ttl: 10 })
+    await i18n.load("en", ["a", "b"])
+    await i18n.load("en", ["a", "b"])
+    expect(calls).toEqual(["/en/a.json", "/en/b.json"])
+
+    setSystemTime(new Date("2026-01-01T00:00:00.030Z"))
+    await i18n.load("en", ["a", "b"])
+    expect(calls).toEqual(["/en/a.json", "/en/b.json", "/en/a.json", "/en/b.json"])
+    expect(i18n.cache.entries()).toHaveLength(2)
+  })
+
+  it("does not reuse a merged load after one of its entries was evicted", async () => {
+    const calls: string[] = []
+    const i18n = setup(calls, { maxEntries: 1 }, ["en"])
+    await i18n.load("pt") // caching en evicts pt
+    expect(i18n.cache.entries().map((e) => e.locale)).toEqual(["en"])
+    expect(i18n.cache.invalidate("pt")).toBe(false)
+
+    calls.length = 0
+    expect(await i18n.load("pt")).toEqual({ from: "/pt.json" })
+    expect(calls).toEqual(["/pt.json", "/en.json"])
+  })
+
+  it("reports removals from createLruCache, but not replacements", () => {
+    const removed: string[] = []
+    const cache = createLruCache<string, number>({ maxEntries: 2 }, (key) => removed.push(key))
+    cache.set("a", 1)
+    cache.set("a", 2)
+    cache.set("b", 3)
+    expect(cache.get("a")).toBe(2)
+    cache.set("c", 4)
+    expect(removed).toEqual(["b"])
+    expect(cache.peek("b")).toBeUndefined()
+    cache.clear()
+    expect(removed).toEqual(["b", "a", "c"])
+  })
+})
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "bun:test"
+import { htmlAttributes, textDirection } from "../src/index"
+
+describe("@lokat/core text direction", () => {
+  it("detects right-to-left languages and scripts", () => {
+    for (const tag of ["ar", "ar-EG", "he", "fa-IR", "ur", "yi", "az-Arab", "pa-Arab-PK"]) {
+      expect(textDirection(tag)).toBe("rtl")
+    }
+    for (const tag of ["en", "en-US", "id", "zh-Hant-TW", "az-Latn", "ja"]) {
+      expect(textDirection(tag)).toBe("ltr")
+    }
+  })
+
+  it("falls back to ltr for missing or malformed tags", () => {
+    expect(textDirection(undefined)).toBe("ltr")
+    expect(textDirection("")).toBe("ltr")
+    expect(textDirection("not a tag")).toBe("ltr")
+    expect(textDirection("ar_SA")).toBe("rtl") // table fallback after Intl.Locale rejects `_`
+  })
+
+  it("returns the attributes for the server-rendered <html> tag", () => {
+    expect(htmlAttributes("he-IL")).toEqual({ lang: "he-IL", dir: "rtl" })
+    expect(htmlAttributes("en")).toEqual({ lang: "en", dir: "ltr" })
+  })
+})
@@ -0,0 +1,152 @@
+import { describe, expect, it } from "bun:test"
+import {
+  createEmitter,
+  createLokat,
+  type LokatCoreEvents,
+  type LokatOptions,
+  trackLoad,
+} from "../src/index"
+
+const FILES: Record<string, Record<string, string>> = {
+  "/en.json": { hi: "Hi" },
+  "/en/home.json": { "home.title": "Home" },
+  "/id.json": { hi: "Halo" },
+}
+
+function setup(extra: Partial<LokatOptions> = {}) {
+  return createLokat({
+    resolveLocaleUrl: (locale, ns) => (ns ? `/${locale}/${ns}.json` : `/${locale}.json`),
+    fetcher: async (input) => {
+      const dict = FILES[input]
+      if (!dict) throw new Error(`404 ${input}`)
+      return { json: async () => ({ ...dict }) }
+    },
+    ...extra,
+  })
+}
+
+describe("@lokat/core events", () => {
+  it("reports loads with duration and cache hits", async () => {
+    const lokat = setup()
+    const seen: unknown[] = []
+    lokat.on("loadStart", (e) => seen.push(["start", e]))
+    lokat.on("loadSuccess", (e) => {
+      expect(e.duration).toBeGreaterThanOrEqual(0)
+      seen.push(["success", { ...e, duration: 0 }])
+    })
+    await lokat.load("en")
+    await lokat.load("en")
+    expect(seen).toEqual([
+      ["start", { locale: "en", cached: false }],
+      ["success", { locale: "en", cached: false, duration: 0 }],
+      ["start", { locale: "en", cached: true }],
+      ["success", { locale: "en", cached: true, duration: 0 }],
+    ])
+  })
+
+  it("reports namespaces, fallback chains and failures", async () => {
+    const lokat = setup({ fallbackLocales: ["en"] })
+    const starts: LokatCoreEvents["loadStart"][] = []
+    const errors: LokatCoreEvents["loadError"][] = []
+    lokat.on("loadStart", (e) => starts.push(e))
+    lokat.on("loadError", (e) => errors.push(e))
+    await lokat.load("en")
+    await lokat.load("id")
+    await lokat.load("en", ["home"])
+    await expect(lokat.load("fr")).rejects.toThrow("404 /fr.json")
+    expect(starts).toEqual([
+      { locale: "en", cached: false },
+      // "en" is cached, "id" is not.
+      { locale: "id", cached: false },
+      { locale: "en", namespaces: ["home"], cached: false },
+      { locale: "fr", cached: false },
+    ])
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toMatchObject({ locale: "fr", cached: false })
+    expect((errors[0]?.error as Error).message).toBe("404 /fr.json")
+  })
+
+  it("emits missing keys alongside onMissingKey", async () => {
+    const reported: string[] = []
+    const lokat = setup({ onMissingKey: (key) => reported.push(key) })
+    const missing: LokatCoreEvents["missingKey"][] = []
+    const off = lokat.on("missingKey", (e) => missing.push(e))
+    const t = lokat.createT(await lokat.load("en"))
+    expect(t("hi")).toBe("Hi")
+    expect(t("nope")).toBe("nope")
+    off()
+    t("gone")
+    expect(missing).toEqual([{ key: "nope", locale: "en" }])
+    expect(reported).toEqual(["nope", "gone"])
+  })
+
+  it("reports a load only to the listeners present when it starts", async () => {
+    const events = createEmitter<LokatCoreEvents>()
+    const seen: unknown[] = []
+    let checks = 0
+    const cached = () => {
+      checks++
+      return false
+    }
+    expect(await trackLoad(events, { locale: "en" }, cached, async () => 1)).toBe(1)
+    expect(checks).toBe(0) // nobody listens: no cache check, no clock
+
+    const off = events.on("loadStart", (e) => seen.push(["early start", e.locale]))
+    events.on("loadSuccess", () => seen.push("early success"))
+    let finish: (value: number) => void = () => {}
+    const loading = trackLoad(
+      events,
+      { locale: "id" },
+      cached,
+      () =>
+        new Promise<number>((resolve) => {
+          finish = resolve
+        }),
+    )
+    events.on("loadStart", () => seen.push("late start"))
+    events.on("loadSuccess", () => seen.push("late success"))
+    off()
+    finish(2)
+    await loading
+    expect(checks).toBe(1)
+    expect(seen).toEqual([["early start", "id"], "early success"])
+  })
+
+  it("builds translators without a miss check when nobody receives misses", async () => {
+    const lokat = setup()
+    const dict = await lokat.load("en")
+    const unchecked = lokat.createT(dict)
+    const missing: string[] = []
+    lokat.on("missingKey", (e) => missing.push(e.key))
+    const checked = lokat.createT(dict)
+    unchecked("before")
+    checked("after")
+    expect(missing).toEqual(["after"])
+  })
+
+  it("keeps emitting when a listener throws", async () => {
+    const events = createEmitter<{ ping: number }>()
+    const got: number[] = []
+    const thrown: unknown[] = []
+    const original = globalThis.queueMicrotask
+    globalThis.queueMicrotask = (cb) => {
+      try {
+        cb()
+      } catch (err) {
+        thrown.push(err)
+      }
+    }
+    try {
+      events.on("ping", () => {
+        throw new Error("boom")
+      })
+      events.on("ping", (n) => got.push(n))
+      events.emit("ping", 1)
+    } finally {
+      globalThis.queueMicrotask = original
+    }
+    expect(got).toEqual([1])
+    expect((thrown[0] as Error).message).toBe("boom")
+    expect(events.has("ping")).toBe(true)
+  })
+})
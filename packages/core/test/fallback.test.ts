@@ -0,0 +1,93 @@
+import { describe, expect, it } from "bun:test"
+import { createLokat } from "../src/index"
+
+const DICTS: Record<string, Record<string, string>> = {
+  "pt-BR": { greet: "Oi" },
+  pt: { greet: "Olá", bye: "Tchau" },
+  en: { greet: "Hello", bye: "Bye", help: "Help" },
+}
+
+function fetcherWithLog(calls: string[]) {
+  return async (locale: string) => {
+    calls.push(locale)
+    return { json: async () => DICTS[locale] }
+  }
+}
+
+describe("@lokat/core fallback locales", () => {
+  it("merges the chain once, requested locale first", async () => {
+    const calls: string[] = []
+    const i18n = createLokat({
+      resolveLocaleUrl: (l) => l,
+      fetcher: fetcherWithLog(calls),
+      fallbackLocales: (l) => [l.split("-")[0] as string, "en"],
+    })
+
+    const dict = await i18n.load("pt-BR")
+    const t = i18n.createT(dict)
+    expect(t("greet")).toBe("Oi")
+    expect(t("bye")).toBe("Tchau")
+    expect(t("help")).toBe("Help")
+    expect(t("missing")).toBe("missing")
+
+    expect(await i18n.load("pt-BR")).toBe(dict) // merged once per chain
+    expect(calls).toEqual(["pt-BR", "pt", "en"])
+  })
+
+  it("shares per-locale fetches across chains and skips duplicates", async () => {
+    const calls: string[] = []
+    const i18n = createLokat({
+      resolveLocaleUrl: (l) => l,
+      fetcher: fetcherWithLog(calls),
+      fallbackLocales: ["en"],
+    })
+
+    const pt = await i18n.load("pt")
+    const en = await i18n.load("en") // chain of one: the plain dictionary
+    expect(pt.help).toBe("Help")
+    expect(en).toBe(DICTS.en as Record<string, string>)
+    expect(calls).toEqual(["pt", "en"])
+  })
+
+  it("skips a failed fallback locale and retries it on the next load", async () => {
+    let fail = true
+    const errors: string[] = []
+    const i18n = createLokat({
+      resolveLocaleUrl: (l) => l,
+      fetcher: async (l) => ({
+        json: async () => {
+          if (l === "en" && fail) throw new Error("boom")
+          return DICTS[l]
+        },
+      }),
+      fallbackLocales: ["en"],
+      onError: (err, locale) => errors.push(`${locale}: ${(err as Error).message}`),
+    })
+
+    const partial = await i18n.load("pt")
+    expect(partial).toEqual({ greet: "Olá", bye: "Tchau" })
+    expect(errors).toEqual(["en: boom"])
+    fail = false
+    const dict = await i18n.load("pt")
+    expect(dict.help).toBe("Help")
+    expect(errors).toHaveLength(1)
+  })
+
+  it("still rejects when the requested locale fails", async () => {
+    const errors: unknown[] = []
+    const i18n = createLokat({
+      resolveLocaleUrl: (l) => l,
+      fetcher: async (l) => ({
+        json: async () => {
+          if (l === "pt") throw new Error("boom")
+          return DICTS[l]
+        },
+      }),
+      fallbackLocales: ["en"],
+      onError: (err) => errors.push(err),
+    })
+
+    await expect(i18n.load("pt", ["common"])).rejects.toThrow("boom")
+    expect(errors).toEqual([])
+  })
+})
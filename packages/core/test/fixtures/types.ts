@@ -0,0 +1,46 @@
+// Type-level checks, compiled by `types.test.ts`: every `@ts-expect-error` must be an error,
+// and every other line must compile.
+import { createLokat, type Translator } from "../../src/index"
+
+type Dict = {
+  readonly "home.title": "Welcome"
+  readonly "home.greeting": "Hello, {name}!"
+  readonly "cart.items_one": "{count} item"
+  readonly "cart.items_other": "{count} items"
+  readonly inbox: "{n, plural, one {# message} other {# messages}} for {user}"
+}
+
+declare const t: Translator<Dict>
+
+t("home.title")
+t("home.greeting", { name: "Ada" })
+t("home.greeting", { name: () => "Ada" })
+t("cart.items", { count: 2 })
+t("cart.items_one", { count: 1 })
+t("inbox", { n: 3, user: "Ada" })
+
+// @ts-expect-error unknown key
+t("hoem.title")
+// @ts-expect-error unknown param
+t("home.greeting", { nmae: "Ada" })
+// @ts-expect-error missing params
+t("home.greeting")
+// @ts-expect-error params for a key without placeholders
+t("home.title", { name: "Ada" })
+// @ts-expect-error plural base keys need `count`
+t("cart.items")
+// @ts-expect-error `count` must be a number
+t("cart.items", { count: "2" })
+// @ts-expect-error missing ICU argument
+t("inbox", { n: 3 })
+
+const lokat = createLokat<Dict>({ resolveLocaleUrl: (l) => `/${l}.json` })
+const typed = lokat.createT({})
+typed("home.greeting", { name: "Ada" })
+// @ts-expect-error instance translators are typed by `D`
+typed("nope")
+
+// Untyped translators accept any key and params.
+declare const loose: Translator
+loose("anything")
+loose("anything", { x: 1 })
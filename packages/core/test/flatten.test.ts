@@ -0,0 +1,59 @@
+import { describe, expect, it } from "bun:test"
+import { createLokat, type DictionaryKeyCollisionError, flattenDictionary } from "../src/index"
+
+describe("@lokat/core nested dictionaries", () => {
+  it("flattens nested objects into dot-notation keys", () => {
+    expect(
+      flattenDictionary({ home: { title: "Welcome", hero: { cta: "Go" } }, ok: "OK" }),
+    ).toEqual({
+      "home.title": "Welcome",
+      "home.hero.cta": "Go",
+      ok: "OK",
+    })
+  })
+
+  it("supports a custom separator", () => {
+    expect(flattenDictionary({ home: { title: "Welcome" } }, ":")).toEqual({
+      "home:title": "Welcome",
+    })
+  })
+
+  it("throws a clear error on key collisions", () => {
+    let err: DictionaryKeyCollisionError | undefined
+    try {
+      flattenDictionary({ "a.b": "x", a: { b: "y" } })
+    } catch (e) {
+      err = e as DictionaryKeyCollisionError
+    }
+    expect(err?.name).toBe("DictionaryKeyCollisionError")
+    expect(err?.key).toBe("a.b")
+    expect(err?.message).toContain('"a.b"')
+  })
+
+  it("flattens once at load time, before validation", async () => {
+    let calls = 0
+    const i18n = createLokat({
+      resolveLocaleUrl: (l) => l,
+      flatten: true,
+      validate: "strict",
+      fetcher: async () => {
+        calls++
+        return { json: async () => ({ home: { title: "Welcome {name}" } }) }
+      },
+    })
+
+    const dict = await i18n.load("en")
+    expect(await i18n.load("en")).toBe(dict)
+    expect(calls).toBe(1)
+    expect(i18n.createT(dict)("home.title", { name: "Ada" })).toBe("Welcome Ada")
+  })
+
+  it("rejects the load on collisions", async () => {
+    const i18n = createLokat({
+      resolveLocaleUrl: (l) => l,
+      flatten: { separator: "_" },
+      fetcher: async () => ({ json: async () => ({ a_b: "x", a: { b: "y" } }) }),
+    })
+    await expect(i18n.load("en")).rejects.toThrow('collision while flattening: "a_b"')
+  })
+})
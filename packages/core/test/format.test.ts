@@ -0,0 +1,44 @@
+import { describe, expect, it } from "bun:test"
+import { createFormatters, createIntlCache, createLokat } from "../src/index"
+
+describe("@lokat/core formatters", () => {
+  it("formats numbers, currency, dates, relative time and lists for the bound locale", () => {
+    const i18n = createLokat({ resolveLocaleUrl: (l) => l })
+    const en = i18n.format("en-US")
+    const de = i18n.format("de-DE")
+
+    expect(en.number(1234.5)).toBe("1,234.5")
+    expect(de.number(1234.5)).toBe("1.234,5")
+    expect(en.currency(9.5, "USD")).toBe("$9.50")
+    expect(de.currency(9.5, "EUR")).toBe(
+      new Intl.NumberFormat("de-DE", { style: "currency", currency: "EUR" }).format(9.5),
+    )
+    expect(en.date(Date.UTC(2024, 0, 2), { dateStyle: "medium", timeZone: "UTC" })).toBe(
+      "Jan 2, 2024",
+    )
+    expect(en.relativeTime(-1, "day", { numeric: "auto" })).toBe("yesterday")
+    expect(en.list(["a", "b", "c"])).toBe("a, b, and c")
+  })
+
+  it("reuses formatters per locale within an instance", () => {
+    const i18n = createLokat({ resolveLocaleUrl: (l) => l })
+    expect(i18n.format("en")).toBe(i18n.format("en"))
+    expect(i18n.format("en")).not.toBe(i18n.format("id"))
+  })
+
+  it("caches Intl objects per locale and options", () => {
+    const cache = createIntlCache()
+    expect(cache.number("en", { style: "percent" })).toBe(cache.number("en", { style: "percent" }))
+    expect(cache.number("en")).not.toBe(cache.number("en", { style: "percent" }))
+    expect(cache.number("en")).not.toBe(cache.number("id"))
+    expect(cache.date("en")).not.toBe(cache.number("en") as unknown)
+  })
+
+  it("reads a locale getter on every call", () => {
+    let locale = "en-US"
+    const f = createFormatters(() => locale)
+    expect(f.number(1000)).toBe("1,000")
+    locale = "de-DE"
+    expect(f.number(1000)).toBe("1.000")
+  })
+})
@@ -0,0 +1,163 @@
+import { describe, expect, it } from "bun:test"
+import {
+  compileMessage,
+  compileMessages,
+  createLokat,
+  createTranslator,
+  type MessageFormatError,
+  parseMessage,
+} from "../src/index"
+
+const msg = (src: string, locale = "en") => compileMessage(parseMessage(src), { locale })
+
+describe("@lokat/core ICU messages", () => {
+  it("parses arguments, plurals and selects into a JSON-safe AST", () => {
+    const ast = parseMessage("Hi {name}, {n, plural, offset:1 =0 {none} other {# more}}!")
+    expect(JSON.parse(JSON.stringify(ast))).toEqual([
+      "Hi ",
+      { arg: "name" },
+      ", ",
+      {
+        arg: "n",
+        type: "plural",
+        offset: 1,
+        options: { "=0": ["none"], other: [{ type: "#" }, " more"] },
+      },
+      "!",
+    ])
+  })
+
+  it("selects plural categories, exact matches and offsets", () => {
+    const inbox = msg("{n, plural, =0 {No messages} one {# message} other {# messages}}")
+    expect(inbox({ n: 0 })).toBe("No messages")
+    expect(inbox({ n: 1 })).toBe("1 message")
+    expect(inbox({ n: 1200 })).toBe("1,200 messages")
+
+    const likes = msg(
+      "{n, plural, offset:1 =0 {Nobody} =1 {You} one {You and # other} other {You and # others}}",
+    )
+    expect(likes({ n: 1 })).toBe("You")
+    expect(likes({ n: 2 })).toBe("You and 1 other")
+    expect(likes({ n: 4 })).toBe("You and 3 others")
+
+    expect(
+      msg("{n, plural, one {# jeden} few {# kilka} many {# wiele} other {# inne}}", "pl")({ n: 5 }),
+    ).toBe("5 wiele")
+  })
+
+  it("nests selects and plurals inside sentences", () => {
+    const sent = msg(
+      "{who} sent {g, select, female {her} male {his} other {their}} {n, plural, one {photo} other {# photos to {to}}}.",
+    )
+    expect(sent({ who: "Ada", g: "female", n: 1 })).toBe("Ada sent her photo.")
+    expect(sent({ who: "Bo", g: "x", n: 3, to: "Cy" })).toBe("Bo sent their 3 photos to Cy.")
+    expect(sent({ who: () => "Di", g: () => "male", n: () => 2, to: "Ed" })).toBe(
+      "Di sent his 2 photos to Ed.",
+    )
+  })
+
+  it("formats ordinals, numbers and dates for the locale", () => {
+    expect(msg("{n, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}")({ n: 22 })).toBe(
+      "22nd",
+    )
+    expect(msg("{p, number, percent} / {x, number, integer}")({ p: 0.5, x: 2.7 })).toBe("50% / 3")
+    expect(msg("{d, date, short}")({ d: Date.UTC(2024, 0, 15, 12) })).toContain("24")
+  })
+
+  it("keeps missing arguments verbatim and honors quoting", () => {
+    expect(msg("Hi {name}")()).toBe("Hi {name}")
+    expect(msg("It''s '{literal}' {n, plural, other {'#' #}}")({ n: 2 })).toBe("It's {literal} # 2")
+    expect(msg("Don't {n, select, other {stop}}")({ n: 1 })).toBe("Don't stop")
+  })
+
+  it("reports syntax errors with their offset", () => {
+    const err = (() => {
+      try {
+        parseMessage("{n, plural, one {x}}")
+      } catch (e) {
+        return e as MessageFormatError
+      }
+    })()
+    expect(err?.name).toBe("MessageFormatError")
+    expect(err?.message).toContain('missing "other"')
+    expect(() => parseMessage("{n, bogus}")).toThrow('unsupported argument type "bogus"')
+    expect(() => parseMessage("{n, select, other {x}")).toThrow("unclosed")
+    expect(() => parseMessage("a } b")).toThrow('unexpected "}"')
+  })
+
+  it("compiles only ICU values and prefers precompiled ASTs", () => {
+    const messages = compileMessages(
+      { plain: "Hi {name}", icu: "{n, plural, other {# x}}", pre: "ignored" },
+      { locale: "en", parseMessage, precompiled: { ignored: ["from AST"] } },
+    )
+    expect([...messages.keys()]).toEqual(["icu", "pre"])
+
+    const t = createTranslator({ plain: "Hi {name}", icu: "raw", pre: "raw" }, { messages })
+    expect(t("plain", { name: "Ada" })).toBe("Hi Ada")
+    expect(t("icu", { n: 2 })).toBe("2 x")
+    expect(t("pre")).toBe("from AST")
+  })
+
+  it("compiles once at load time and works through createT", async () => {
+    let parses = 0
+    const i18n = createLokat({
+      resolveLocaleUrl: (l) => l,
+      fallbackLocales: ["en"],
+      parseMessage: (m) => {
+        parses++
+        return parseMessage(m)
+      },
+      fetcher: async (l) => ({
+        json: async () =>
+          l === "en"
+            ? { cart: "{n, plural, one {# item} other {# items}}", hi: "{g, select, other {Hi}}" }
+            : { cart: "{n, plural, one {# Artikel} other {# Artikel}}", hi: "Hallo" },
+      }),
+    })
+
+    const t = i18n.createT(await i18n.load("de"))
+    i18n.createT(await i18n.load("de"))
+    expect(parses).toBe(3)
+    expect(t("cart", { n: 1000 })).toBe("1.000 Artikel")
+    expect(t("hi")).toBe("Hallo") // plain override of a fallback ICU message
+  })
+
+  it("rejects the load with the offending key", async () => {
+    const i18n = createLokat({
+      resolveLocaleUrl: (l) => l,
+      parseMessage,
+      fetcher: async () => ({ json: async () => ({ bad: "{n, plural, one {x}}" }) }),
+    })
+    const err = (await i18n.load("en").catch((e) => e)) as MessageFormatError
+    expect(err.name).toBe("MessageFormatError")
+    expect(err.key).toBe("bad")
+  })
+
+  it("ignores precompiled ASTs whose source message changed", () => {
+    const stale = "{n, plural, one {# item} other {# items}}"
+    const precompiled = { [stale]: parseMessage(stale) }
+    const dict = { cart: "{n, plural, one {# article} other {# articles}}", hi: "Hi {name}" }
+    const parsed = compileMessages(dict, { locale: "en", parseMessage, precompiled })
+    expect(createTranslator(dict, { messages: parsed })("cart", { n: 2 })).toBe("2 articles")
+
+    // Without a parser the edited value is not rendered from the stale AST.
+    expect(compileMessages(dict, { locale: "en", precompiled }).size).toBe(0)
+  })
+
+  it("compiles precompiled ASTs without a parser", async () => {
+    const i18n = createLokat({
+      resolveLocaleUrl: (l) => l,
+      precompiled: {
+        en: {
+          "{n, plural, one {one} other {many}}": [
+            { arg: "n", type: "plural", options: { one: ["one"], other: ["many"] } },
+          ],
+        },
+      },
+      fetcher: async () => ({ json: async () => ({ n: "{n, plural, one {one} other {many}}" }) }),
+    })
+    const t = i18n.createT(await i18n.load("en"))
+    expect(t("n", { n: 1 })).toBe("one")
+    expect(t("n", { n: 2 })).toBe("many")
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "bun:test"
+import { createLokat, createTranslator } from "../src/index"
+
+describe("@lokat/core interpolation", () => {
+  const i18n = createLokat({ resolveLocaleUrl: (l) => l })
+
+  it("substitutes {name} placeholders", () => {
+    const t = i18n.createT({ greet: "Hello, {name}! You have {count} messages." })
+    expect(t("greet", { name: "Ada", count: 3 })).toBe("Hello, Ada! You have 3 messages.")
+  })
+
+  it("keeps parameterless lookups as plain reads (templates untouched)", () => {
+    const t = i18n.createT({ greet: "Hello, {name}!" })
+    expect(t("greet")).toBe("Hello, {name}!")
+    expect(t("missing")).toBe("missing")
+  })
+
+  it("keeps unknown placeholders verbatim", () => {
+    const t = createTranslator({ greet: "Hi {name}, {other}" })
+    expect(t("greet", { name: "Ada" })).toBe("Hi Ada, {other}")
+  })
+
+  it("invokes accessor values at format time", () => {
+    let name = "Ada"
+    const t = createTranslator({ greet: "Hi {name}" })
+    const params = { name: () => name }
+    expect(t("greet", params)).toBe("Hi Ada")
+    name = "Grace"
+    expect(t("greet", params)).toBe("Hi Grace")
+  })
+
+  it("falls back to the key as template when missing", () => {
+    const t = createTranslator({})
+    expect(t("Hi {name}", { name: "Ada" })).toBe("Hi Ada")
+  })
+
+  it("reuses parsed templates across calls", () => {
+    const t = createTranslator({ a: "{x}-{y}", b: "plain" })
+    expect(t("a", { x: 1, y: 2 })).toBe("1-2")
+    expect(t("a", { x: "p", y: "q" })).toBe("p-q")
+    expect(t("b", { x: 1 })).toBe("plain")
+  })
+})
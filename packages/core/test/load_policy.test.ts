@@ -0,0 +1,116 @@
+import { describe, expect, it } from "bun:test"
+import { createLokat } from "../src/index"
+
+const never = () => new Promise<never>(() => {})
+
+describe("@lokat/core load timeout, retry and abort", () => {
+  it("times out a hung attempt, aborts its signal and evicts the entry", async () => {
+    let calls = 0
+    let seen: AbortSignal | undefined
+    const i18n = createLokat({
+      resolveLocaleUrl: (l) => l,
+      timeout: 10,
+      fetcher: async (_, init) => {
+        calls++
+        if (calls === 1) {
+          seen = init?.signal
+          return never()
+        }
+        return { json: async () => ({ a: "A" }) }
+      },
+    })
+
+    const err = await i18n.load("en").catch((e: Error) => e)
+    expect(err).toBeInstanceOf(Error)
+    expect((err as Error).name).toBe("TimeoutError")
+    expect(seen?.aborted).toBe(true)
+
+    const dict = await i18n.load("en")
+    expect(dict.a).toBe("A")
+    expect(calls).toBe(2)
+  })
+
+  it("retries with backoff before failing", async () => {
+    let attempts = 0
+    const delays: number[] = []
+    const i18n = createLokat({
+      resolveLocaleUrl: (l) => l,
+      retries: 2,
+      retryDelay: (attempt) => {
+        delays.push(attempt)
+        return 1
+      },
+      fetcher: async () => ({
+        json: async () => {
+          attempts++
+          if (attempts < 3) throw new Error(`boom ${attempts}`)
+          return { a: "A" }
+        },
+      }),
+    })
+
+    const dict = await i18n.load("en")
+    expect(dict.a).toBe("A")
+    expect(attempts).toBe(3)
+    expect(delays).toEqual([0, 1])
+  })
+
+  it("rejects and evicts once retries are exhausted", async () => {
+    let attempts = 0
+    const i18n = createLokat({
+      resolveLocaleUrl: (l) => l,
+      retries: 1,
+      retryDelay: 1,
+      fetcher: async () => ({
+        json: async () => {
+          attempts++
+          if (attempts <= 2) throw new Error("boom")
+          return { a: "A" }
+        },
+      }),
+    })
+
+    await expect(i18n.load("en")).rejects.toThrow("boom")
+    expect(attempts).toBe(2)
+    expect((await i18n.load("en")).a).toBe("A")
+  })
+
+  it("aborting detaches the caller without failing other waiters", async () => {
+    let release: (v: { json(): unknown }) => void = () => {}
+    let calls = 0
+    const i18n = createLokat({
+      resolveLocaleUrl: (l) => l,
+      fetcher: () => {
+        calls++
+        return new Promise((r) => {
+          release = r
+        })
+      },
+    })
+
+    const controller = new AbortController()
+    const aborted = i18n.load("en", { signal: controller.signal })
+    const other = i18n.load("en")
+    controller.abort(new Error("cancelled"))
+    await expect(aborted).rejects.toThrow("cancelled")
+
+    release({ json: async () => ({ a: "A" }) })
+    expect((await other).a).toBe("A")
+    expect(calls).toBe(1)
+
+    const preAborted = AbortSignal.abort(new Error("early"))
+    await expect(i18n.load("en", { signal: preAborted })).rejects.toThrow("early")
+  })
+
+  it("accepts namespaces alongside a signal", async () => {
+    const i18n = createLokat({
+      resolveLocaleUrl: (l, ns) => `${l}/${ns}`,
+      fetcher: async (input) => ({ json: async () => ({ from: input }) }),
+    })
+    const dict = await i18n.load("en", {
+      namespaces: ["common"],
+      signal: new AbortController().signal,
+    })
+    expect(dict.from).toBe("en/common")
+  })
+})
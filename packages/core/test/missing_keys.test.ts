@@ -0,0 +1,52 @@
+import { describe, expect, it } from "bun:test"
+import { createLokat, createMissingKeyCollector, createTranslator } from "../src/index"
+
+describe("@lokat/core missing-key reporting", () => {
+  it("reports key fallbacks with the translator locale", async () => {
+    const misses: Array<[string, string | undefined]> = []
+    const i18n = createLokat({
+      resolveLocaleUrl: (l) => l,
+      fetcher: async () => ({ json: async () => ({ hit: "Hit", n_one: "{count} n" }) }),
+      onMissingKey: (key, locale) => misses.push([key, locale]),
+    })
+
+    const t = i18n.createT(await i18n.load("en"))
+    expect(t("hit")).toBe("Hit")
+    expect(t("nope")).toBe("nope")
+    expect(t("greet {name}", { name: "Ada" })).toBe("greet Ada")
+    expect(t("n", { count: 1 })).toBe("1 n")
+    expect(t("m", { count: 1 })).toBe("m")
+    expect(misses).toEqual([
+      ["nope", "en"],
+      ["greet {name}", "en"],
+      ["m", "en"],
+    ])
+  })
+
+  it("builds the plain translator when no hook is configured", () => {
+    const t = createTranslator({ a: "A" })
+    expect(t("a")).toBe("A")
+    expect(t("b")).toBe("b")
+  })
+
+  it("collector de-duplicates per locale and serializes to JSON", () => {
+    const missing = createMissingKeyCollector()
+    const en = createTranslator({}, { locale: "en", onMissingKey: missing.onMissingKey })
+    const id = createTranslator({}, { locale: "id", onMissingKey: missing.onMissingKey })
+
+    en("b")
+    en("a")
+    en("b")
+    id("a")
+    expect(JSON.stringify(missing)).toBe('{"en":["a","b"],"id":["a"]}')
+
+    missing.clear()
+    expect(missing.toJSON()).toEqual({})
+  })
+
+  it("collector groups opaque locales through localeKey", () => {
+    const missing = createMissingKeyCollector<{ tag: string }>((l) => l.tag)
+    missing.onMissingKey("x", { tag: "fr" })
+    expect(missing.toJSON()).toEqual({ fr: ["x"] })
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "bun:test"
+import { createLokat } from "../src/index"
+
+const FILES: Record<string, Record<string, string>> = {
+  "/en/common.json": { ok: "OK", title: "Common" },
+  "/en/home.json": { "home.title": "Home", title: "Home title" },
+  "/id/common.json": { ok: "Oke" },
+}
+
+function setup(calls: string[], fallbackLocales?: readonly string[]) {
+  return createLokat({
+    resolveLocaleUrl: (locale, ns) => `/${locale}/${ns}.json`,
+    fetcher: async (input) => {
+      calls.push(input)
+      return {
+        json: async () => {
+          const dict = FILES[input]
+          if (!dict) throw new Error(`404 ${input}`)
+          return dict
+        },
+      }
+    },
+    ...(fallbackLocales ? { fallbackLocales } : {}),
+  })
+}
+
+describe("@lokat/core namespaces", () => {
+  it("fetches each (locale, namespace) once and merges in order", async () => {
+    const calls: string[] = []
+    const i18n = setup(calls)
+
+    const common = await i18n.load("en", ["common"])
+    expect(common.ok).toBe("OK")
+
+    const both = await i18n.load("en", ["common", "home"])
+    const t = i18n.createT(both)
+    expect(t("ok")).toBe("OK")
+    expect(t("home.title")).toBe("Home")
+    expect(t("title")).toBe("Home title") // later namespace wins
+
+    expect(await i18n.load("en", ["common", "home"])).toBe(both)
+    expect(calls).toEqual(["/en/common.json", "/en/home.json"])
+  })
+
+  it("combines namespaces with fallback locales", async () => {
+    const calls: string[] = []
+    const i18n = setup(calls, ["en"])
+
+    const dict = await i18n.load("id", ["common"])
+    expect(dict.ok).toBe("Oke")
+    expect(dict.title).toBe("Common")
+  })
+
+  it("evicts failed namespace fetches so they can be retried", async () => {
+    const calls: string[] = []
+    const i18n = setup(calls)
+
+    await expect(i18n.load("id", ["common", "home"])).rejects.toThrow("404 /id/home.json")
+    FILES["/id/home.json"] = { "home.title": "Beranda" }
+    const dict = await i18n.load("id", ["common", "home"])
+    expect(dict["home.title"]).toBe("Beranda")
+    // common stayed cached; only the failed namespace was fetched again
+    expect(calls).toEqual(["/id/common.json", "/id/home.json", "/id/home.json"])
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "bun:test"
+import {
+  detectLocale,
+  fromAcceptLanguage,
+  fromCookie,
+  fromNavigator,
+  fromPathPrefix,
+  matchLocale,
+  negotiateLocale,
+  parseAcceptLanguage,
+} from "../src/index"
+
+const supported = ["en", "en-GB", "id", "zh-Hant", "pt-BR"] as const
+
+describe("@lokat/core locale negotiation", () => {
+  it("parses Accept-Language by q-value, keeping header order on ties", () => {
+    expect(parseAcceptLanguage("fr;q=0.8, en-US, de;q=0.8, *;q=0.1, es;q=0")).toEqual([
+      "en-US",
+      "fr",
+      "de",
+    ])
+    expect(parseAcceptLanguage(" id ; q = 0.5 ,bad tag, x;q=2")).toEqual(["id"])
+    expect(parseAcceptLanguage(null)).toEqual([])
+  })
+
+  it("matches with BCP 47 lookup, then same-language fallback", () => {
+    expect(matchLocale("en-gb", supported)).toBe("en-GB")
+    expect(matchLocale("en-US", supported)).toBe("en")
+    expect(matchLocale("zh-Hant-TW", supported)).toBe("zh-Hant")
+    expect(matchLocale("en-a-bbb-x-private", supported)).toBe("en")
+    expect(matchLocale("pt_PT", supported)).toBe("pt-BR")
+    expect(matchLocale(["fr", "de"], supported)).toBeUndefined()
+  })
+
+  it("prefers earlier preferences over closer later matches", () => {
+    expect(matchLocale(["pt", "en-GB"], supported)).toBe("pt-BR")
+  })
+
+  it("tries sources in order and falls back to the default", () => {
+    const pick = (...sources: Parameters<typeof negotiateLocale>[0]["sources"]) =>
+      negotiateLocale({ supported, defaultLocale: "en", sources })
+
+    expect(pick(fromCookie("lang", "a=1; lang=id"), fromAcceptLanguage("en-GB"))).toBe("id")
+    expect(pick(fromCookie("lang", "lang=fr"), fromAcceptLanguage("en-GB"))).toBe("en-GB")
+    expect(pick(fromNavigator({ languages: ["fr", "zh-Hant-HK"] }))).toBe("zh-Hant")
+    expect(pick(fromNavigator({ language: "id-ID" }))).toBe("id")
+    expect(pick(fromNavigator(undefined), fromCookie("x", "x=%E0"))).toBe("en")
+  })
+
+  it("reads the locale from a path or URL prefix", () => {
+    expect(fromPathPrefix("/id/docs")()).toBe("id")
+    expect(fromPathPrefix("https://a.test/pt-br/x?y")()).toBe("pt-br")
+    expect(fromPathPrefix("/")()).toBeUndefined()
+  })
+
+  it("detects the locale of a request: path, then cookie, then header", () => {
+    const req = (url: string, headers: Record<string, string>) => new Request(url, { headers })
+    const opts = { supported, defaultLocale: "en" as const }
+
+    expect(detectLocale(req("https://a.test/id/x", { cookie: "locale=en-GB" }), opts)).toBe("id")
+    expect(
+      detectLocale(
+        req("https://a.test/docs", { cookie: "locale=en-GB", "accept-language": "id" }),
+        opts,
+      ),
+    ).toBe("en-GB")
+    expect(
+      detectLocale(req("https://a.test/id", { "accept-language": "zh-Hant-TW, id;q=0.5" }), {
+        ...opts,
+        pathPrefix: false,
+      }),
+    ).toBe("zh-Hant")
+    expect(detectLocale(req("https://a.test/", {}), opts)).toBe("en")
+  })
+})
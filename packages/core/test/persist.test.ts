@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it } from "bun:test"
+import {
+  combineStores,
+  persistCookie,
+  persistLocalStorage,
+  persistPathPrefix,
+  persistQuery,
+} from "../src/index"
+
+const g = globalThis as Record<string, unknown>
+const GLOBALS = ["document", "location", "history", "localStorage"]
+
+// Minimal browser globals; `replaceState` updates `location` like a real history would.
+function browser(href: string) {
+  const storage = new Map<string, string>()
+  const location = { href, pathname: "", search: "", protocol: "" }
+  const go = (url: string) => {
+    const u = new URL(url)
+    Object.assign(location, {
+      href: u.href,
+      pathname: u.pathname,
+      search: u.search,
+      protocol: u.protocol,
+    })
+  }
+  go(href)
+  const cookies: string[] = []
+  g.location = location
+  g.history = { state: null, replaceState: (_: unknown, __: string, url: string) => go(url) }
+  g.localStorage = {
+    getItem: (k: string) => storage.get(k) ?? null,
+    setItem: (k: string, v: string) => storage.set(k, v),
+  }
+  g.document = {
+    get cookie() {
+      return cookies.map((c) => c.split(";")[0]).join("; ")
+    },
+    set cookie(value: string) {
+      cookies.push(value)
+    },
+  }
+  return { location, cookies }
+}
+
+afterEach(() => {
+  for (const name of GLOBALS) delete g[name]
+})
+
+describe("@lokat/core locale stores", () => {
+  it("are no-ops without browser globals (SSR)", () => {
+    for (const store of [
+      persistLocalStorage(),
+      persistCookie(),
+      persistPathPrefix({ supported: ["en"] }),
+      persistQuery(),
+    ]) {
+      expect(store.read()).toBeUndefined()
+      expect(() => store.write("en")).not.toThrow()
+    }
+  })
+
+  it("round-trips through localStorage and ignores storage errors", () => {
+    browser("https://example.com/")
+    const store = persistLocalStorage("lang", { supported: ["en", "id"] })
+    store.write("id")
+    expect(store.read()).toBe("id")
+    store.write("fr")
+    expect(store.read()).toBeUndefined()
+
+    g.localStorage = {
+      getItem() {
+        throw new Error("SecurityError")
+      },
+      setItem() {
+        throw new Error("QuotaExceededError")
+      },
+    }
+    expect(store.read()).toBeUndefined()
+    expect(() => store.write("en")).not.toThrow()
+  })
+
+  it("writes a cookie with sensible defaults", () => {
+    const { cookies } = browser("https://example.com/")
+    const store = persistCookie("locale", { supported: ["en", "pt-BR"] })
+    store.write("pt-BR")
+    expect(cookies[0]).toBe("locale=pt-BR; Max-Age=31536000; Path=/; SameSite=Lax; Secure")
+    expect(store.read()).toBe("pt-BR")
+  })
+
+  it("replaces or prepends the path prefix and keeps the rest of the URL", () => {
+    const { location } = browser("https://example.com/en/docs?q=1#top")
+    const store = persistPathPrefix({ supported: ["en", "id"] })
+    expect(store.read()).toBe("en")
+    store.write("id")
+    expect(location.href).toBe("https://example.com/id/docs?q=1#top")
+
+    browser("https://example.com/docs")
+    store.write("en")
+    expect(g.location).toMatchObject({ pathname: "/en/docs" })
+    browser("https://example.com/docs")
+    expect(store.read()).toBeUndefined()
+  })
+
+  it("syncs a query parameter and combines stores in order", () => {
+    const { location } = browser("https://example.com/?lang=id&x=1")
+    const store = combineStores(persistQuery("lang"), persistLocalStorage())
+    expect(store.read()).toBe("id")
+    store.write("en")
+    expect(location.search).toBe("?lang=en&x=1")
+    expect(persistLocalStorage().read()).toBe("en")
+  })
+})
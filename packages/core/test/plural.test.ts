@@ -0,0 +1,54 @@
+import { describe, expect, it } from "bun:test"
+import { createLokat, createPluralRules, createTranslator } from "../src/index"
+
+describe("@lokat/core plural rules", () => {
+  it("selects CLDR variants by count for the loaded locale", async () => {
+    const dicts: Record<string, Record<string, string>> = {
+      en: { "cart.items_one": "{count} item", "cart.items_other": "{count} items" },
+      pl: {
+        "cart.items_one": "{count} produkt",
+        "cart.items_few": "{count} produkty",
+        "cart.items_many": "{count} produktów",
+        "cart.items_other": "{count} produktu",
+      },
+    }
+    const i18n = createLokat({
+      resolveLocaleUrl: (l) => l,
+      fetcher: async (l) => ({ json: async () => dicts[l] }),
+    })
+
+    const en = i18n.createT(await i18n.load("en"))
+    expect(en("cart.items", { count: 1 })).toBe("1 item")
+    expect(en("cart.items", { count: 5 })).toBe("5 items")
+
+    const pl = i18n.createT(await i18n.load("pl"))
+    expect(pl("cart.items", { count: 1 })).toBe("1 produkt")
+    expect(pl("cart.items", { count: 3 })).toBe("3 produkty")
+    expect(pl("cart.items", { count: 5 })).toBe("5 produktów")
+    expect(pl("cart.items", { count: 1.5 })).toBe("1.5 produktu")
+  })
+
+  it("falls back to _other, then to the bare key", () => {
+    const t = createTranslator(
+      { a_other: "{count} many", b: "{count} b" },
+      { locale: "ar", pluralRules: createPluralRules() },
+    )
+    expect(t("a", { count: 2 })).toBe("2 many") // "two" missing -> other
+    expect(t("b", { count: 0 })).toBe("0 b")
+    expect(t("c", { count: 1 })).toBe("c")
+  })
+
+  it("accepts an explicit locale in createT and accessor counts", () => {
+    const i18n = createLokat({ resolveLocaleUrl: (l) => l })
+    const t = i18n.createT({ n_one: "one", n_few: "few", n_many: "many", n_other: "other" }, "ru")
+    expect(t("n", { count: () => 21 })).toBe("one")
+    expect(t("n", { count: 22 })).toBe("few")
+    expect(t("n", { count: 25 })).toBe("many")
+  })
+
+  it("caches one Intl.PluralRules per locale", () => {
+    const rules = createPluralRules()
+    expect(rules("en")).toBe(rules("en"))
+    expect(rules("en")).not.toBe(rules("pl"))
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "bun:test"
+import {
+  createLokat,
+  createPseudoLocalizer,
+  type LokatOptions,
+  parseMessage,
+  pseudoDictionary,
+  pseudoLocalize,
+  pseudoMessages,
+  pseudoMissing,
+} from "../src/index"
+
+const FILES: Record<string, Record<string, string>> = {
+  "/en.json": {
+    hello: "Hello, {name}!",
+    inbox: "{n, plural, one {# message} other {# messages}}",
+  },
+  "/id.json": { hello: "Halo, {name}!" },
+}
+
+function setup(extra: Partial<LokatOptions>) {
+  return createLokat({
+    resolveLocaleUrl: (locale) => `/${locale}.json`,
+    fetcher: async (input) => ({ json: async () => ({ ...FILES[input] }) }),
+    ...extra,
+  })
+}
+
+describe("@lokat/core pseudo-localization", () => {
+  it("accents, pads and brackets text but keeps placeholders and tags", () => {
+    expect(pseudoLocalize("Hello, {name}!")).toBe("[Ĥéļļö, {name}!~~~]")
+    expect(pseudoLocalize("Read <link>terms</link>", { expansion: 0 })).toBe(
+      "[Ŕéåð <link>ţéŕɱš</link>]",
+    )
+    expect(pseudoLocalize("OK", { expansion: 1, brackets: ["<<", ">>"] })).toBe("<<ÖĶ~~>>")
+    expect(pseudoDictionary(["a", "b"], { expansion: 0 })).toEqual(["[å]", "[ƀ]"])
+    expect(pseudoMissing("home.title")).toBe("[!! home.title !!]")
+  })
+
+  it("transforms only the option bodies of ICU arguments", () => {
+    const message = "{n, plural, one {# item} other {# items in {place}}}"
+    const pseudo = pseudoLocalize(message, { expansion: 0 })
+    expect(pseudo).toBe("[{n, plural, one {# îţéɱ} other {# îţéɱš îñ {place}}}]")
+    expect(() => parseMessage(pseudo)).not.toThrow()
+    const precompiled = { en: { [message]: parseMessage(message) } }
+    const messages = pseudoMessages(precompiled, { expansion: 0 }).en ?? {}
+    expect(Object.keys(messages)).toEqual([pseudo]) // keyed like the pseudo dictionary's value
+    expect(messages[pseudo]?.[0]).toBe("[")
+  })
+
+  it("keeps ICU quoted literals and escaped apostrophes verbatim", () => {
+    const quoted = pseudoLocalize("Use '{' to open {name}", { expansion: 0 })
+    expect(quoted).toBe("[Ûšé '{' ţö öþéñ {name}]")
+    expect(parseMessage(quoted)).toEqual(["[Ûšé { ţö öþéñ ", { arg: "name" }, "]"])
+
+    const message = "It''s {n, plural, one {'#' '}' item} other {# items}}"
+    const pseudo = pseudoLocalize(message, { expansion: 0 })
+    expect(pseudo).toBe("[Îţ''š {n, plural, one {'#' '}' îţéɱ} other {# îţéɱš}}]")
+    expect(parseMessage(pseudo)).toMatchObject([
+      "[Îţ'š ",
+      { arg: "n", options: { one: ["# } îţéɱ"] } },
+      "]",
+    ])
+  })
+
+  it("translates through a pseudo copy and marks missing keys", async () => {
+    const i18n = setup({ pseudo: createPseudoLocalizer(), parseMessage })
+    const dict = await i18n.load("en")
+    const t = i18n.createT(dict)
+    expect(t("hello", { name: "Ada" })).toBe("[Ĥéļļö, Ada!~~~]")
+    expect(t("inbox", { n: 2 })).toStartWith("[2 ɱéššåĝéš")
+    expect(t("nope")).toBe("[!! nope !!]")
+    expect(dict.hello).toBe("Hello, {name}!") // cached dictionary stays real
+    expect(i18n.serialize()).not.toContain("\\u0124")
+
+    const custom = setup({
+      pseudo: createPseudoLocalizer({ missing: (key) => `MISSING:${key}` }),
+    })
+    expect(custom.createT(await custom.load("en"))("nope", {})).toBe("MISSING:nope")
+  })
+
+  it("pseudo-localizes precompiled ASTs without a parser", async () => {
+    const inbox = FILES["/en.json"]?.inbox as string
+    const precompiled = { en: { [inbox]: parseMessage(inbox) } }
+    const i18n = setup({ pseudo: createPseudoLocalizer({ expansion: 0 }), precompiled })
+    const t = i18n.createT(await i18n.load("en"))
+    expect(t("inbox", { n: 1 })).toBe("[1 ɱéššåĝé]")
+  })
+
+  it("pseudo-localizes precompiled messages filled from a fallback locale", async () => {
+    const inbox = FILES["/en.json"]?.inbox as string
+    const i18n = setup({
+      pseudo: createPseudoLocalizer({ expansion: 0 }),
+      precompiled: { en: { [inbox]: parseMessage(inbox) } },
+      fallbackLocales: ["en"],
+    })
+    const t = i18n.createT(await i18n.load("id"))
+    expect(t("inbox", { n: 2 })).toBe("[2 ɱéššåĝéš]")
+    expect(t("hello", { name: "Ada" })).toBe("[Ĥåļö, Ada!]")
+  })
+})
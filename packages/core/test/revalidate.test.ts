@@ -0,0 +1,83 @@
+import { describe, expect, it } from "bun:test"
+import { createLokat, sameDictionary, watchRevalidation } from "../src/index"
+
+function setup(
+  files: Record<string, Record<string, string>>,
+  calls: string[],
+  onUpdate?: (l: string) => void,
+) {
+  return createLokat({
+    resolveLocaleUrl: (locale, ns) => (ns ? `/${locale}/${ns}.json` : `/${locale}.json`),
+    fetcher: async (input) => {
+      calls.push(input)
+      return {
+        json: async () => {
+          const dict = files[input]
+          if (!dict) throw new Error(`404 ${input}`)
+          return { ...dict }
+        },
+      }
+    },
+    fallbackLocales: ["en"],
+    ...(onUpdate ? { revalidate: { onUpdate } } : {}),
+  })
+}
+
+describe("@lokat/core revalidation", () => {
+  it("serves cached dictionaries and swaps in changed content on demand", async () => {
+    const files = { "/en.json": { hi: "Hi", bye: "Bye" }, "/id.json": { hi: "Halo" } }
+    const calls: string[] = []
+    const updated: string[] = []
+    const i18n = setup(files, calls, (l) => updated.push(l))
+    const before = await i18n.load("id")
+    expect(before).toEqual({ hi: "Halo", bye: "Bye" })
+
+    expect(await i18n.revalidate()).toEqual([])
+    expect(await i18n.load("id")).toBe(before) // nothing changed: same object
+
+    files["/en.json"] = { hi: "Hi", bye: "Goodbye" }
+    expect(await i18n.revalidate()).toEqual(["en"])
+    expect(updated).toEqual(["en"])
+    const after = await i18n.load("id") // merged result rebuilt from the fresh fallback
+    expect(after).toEqual({ hi: "Halo", bye: "Goodbye" })
+    expect(calls.filter((c) => c === "/en.json")).toHaveLength(3)
+  })
+
+  it("keeps the cached dictionary when a refetch fails", async () => {
+    const files: Record<string, Record<string, string>> = { "/en.json": { hi: "Hi" } }
+    const i18n = setup(files, [])
+    const dict = await i18n.load("en")
+    delete files["/en.json"]
+    expect(await i18n.revalidate("en")).toEqual([])
+    expect(await i18n.load("en")).toBe(dict)
+  })
+
+  it("skips triggers while a run is pending and stops on dispose", async () => {
+    let runs = 0
+    let finish: () => void = () => {}
+    const stop = watchRevalidation({ interval: 5 }, () => {
+      runs++
+      return new Promise<void>((r) => {
+        finish = r
+      })
+    })
+    await Bun.sleep(30)
+    expect(runs).toBe(1)
+    finish()
+    await Bun.sleep(20)
+    stop()
+    const settled = runs
+    finish()
+    await Bun.sleep(20)
+    expect(settled).toBeGreaterThan(1)
+    expect(runs).toBe(settled)
+  })
+
+  it("compares dictionaries by content", () => {
+    expect(sameDictionary({ a: "1" }, { a: "1" })).toBe(true)
+    expect(sameDictionary({ a: "1" }, { a: "2" })).toBe(false)
+    expect(sameDictionary({ a: "1" }, { b: "1" })).toBe(false)
+    expect(sameDictionary(["a", "b"], ["a", "b"])).toBe(true)
+    expect(sameDictionary(["a"], ["a", "b"])).toBe(false)
+  })
+})
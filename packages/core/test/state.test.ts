@@ -0,0 +1,89 @@
+import { describe, expect, it } from "bun:test"
+import {
+  createLokat,
+  hashDictionary,
+  type LokatOptions,
+  parseState,
+  serializeState,
+} from "../src/index"
+
+const FILES: Record<string, Record<string, string>> = {
+  "/en.json": { title: "Hello</script><script>alert(1)</script>" },
+  "/en/home.json": { "home.title": "Home" },
+  "/id.json": { title: "Halo" },
+}
+
+function setup(calls: string[], extra: Partial<LokatOptions> = {}) {
+  return createLokat({
+    resolveLocaleUrl: (locale, ns) => (ns ? `/${locale}/${ns}.json` : `/${locale}.json`),
+    fetcher: async (input) => {
+      calls.push(input)
+      return {
+        json: async () => {
+          const dict = FILES[input]
+          if (!dict) throw new Error(`404 ${input}`)
+          return dict
+        },
+      }
+    },
+    ...extra,
+  })
+}
+
+describe("@lokat/core state transfer", () => {
+  it("escapes markup so the snapshot can be inlined in a script element", async () => {
+    const server = setup([])
+    await server.load("en")
+    const json = server.serialize("en")
+
+    expect(json).not.toContain("<")
+    expect(json).not.toContain(">")
+    expect(parseState(json)).toEqual({
+      locale: "en",
+      entries: [
+        {
+          locale: "en",
+          dict: FILES["/en.json"],
+          version: hashDictionary(FILES["/en.json"] as Record<string, string>),
+        },
+      ],
+    })
+    expect(serializeState({ entries: [{ locale: "en", dict: { a: "\u2028&" } }] })).toBe(
+      '{"entries":[{"locale":"en","dict":{"a":"\\u2028\\u0026"}}]}',
+    )
+  })
+
+  it("seeds the client cache so loads resolve without fetching", async () => {
+    const server = setup([])
+    await server.load("en")
+    await server.load("en", ["home"])
+
+    const calls: string[] = []
+    const client = setup(calls, { initialState: server.serialize("en") })
+    const t = client.createT(await client.load("en"))
+    expect(t("title")).toContain("Hello")
+    expect(await client.load("en", ["home"])).toEqual({ "home.title": "Home" })
+    expect(calls).toEqual([])
+
+    await client.load("id")
+    expect(calls).toEqual(["/id.json"])
+  })
+
+  it("leaves out failed loads and keeps entries already cached", async () => {
+    const server = setup([])
+    await server.load("en")
+    await expect(server.load("fr")).rejects.toThrow("404")
+    const state = parseState(server.serialize())
+    expect(state.entries.map((e) => e.locale)).toEqual(["en"])
+
+    const client = setup([])
+    const own = await client.load("en")
+    client.hydrate(state)
+    expect(await client.load("en")).toBe(own)
+  })
+
+  it("rejects input that is not a snapshot", () => {
+    expect(() => setup([]).hydrate("{}")).toThrow(TypeError)
+    expect(() => parseState({ entries: [{ locale: "en" }] } as never)).toThrow("dict")
+  })
+})
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "bun:test"
+import { join } from "node:path"
+import ts from "typescript"
+
+// Compile a fixture with the repo's compiler options; its `@ts-expect-error` lines are the
+// assertions (an unused one is an error too).
+function typeErrors(file: string): string[] {
+  const base = ts.readConfigFile(
+    join(import.meta.dir, "../../../tsconfig.base.json"),
+    ts.sys.readFile,
+  )
+  const { options } = ts.convertCompilerOptionsFromJson(
+    { ...base.config.compilerOptions, types: [], incremental: false, isolatedDeclarations: false },
+    import.meta.dir,
+  )
+  const program = ts.createProgram([file], { ...options, noEmit: true })
+  return ts
+    .getPreEmitDiagnostics(program)
+    .map((d) => `${d.file?.fileName}:${ts.flattenDiagnosticMessageText(d.messageText, " ")}`)
+}
+
+describe("@lokat/core types", () => {
+  it("checks translator keys and params", () => {
+    expect(typeErrors(join(import.meta.dir, "fixtures/types.ts"))).toEqual([])
+  }, 30_000)
+})
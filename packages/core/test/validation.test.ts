@@ -0,0 +1,58 @@
+import { describe, expect, it } from "bun:test"
+import { createLokat, type DictionaryValidationError } from "../src/index"
+
+const BAD = { ok: "OK", nested: { a: "A" }, empty: null, n: 1 }
+
+function setup(validate: "strict" | "sanitize", reports: string[][] = [], payload: unknown = BAD) {
+  let calls = 0
+  const i18n = createLokat({
+    resolveLocaleUrl: (l) => `/${l}.json`,
+    validate,
+    onInvalidKeys: (keys) => reports.push(keys),
+    fetcher: async () => {
+      calls++
+      return { json: async () => payload }
+    },
+  })
+  return { i18n, calls: () => calls }
+}
+
+describe("@lokat/core dictionary validation", () => {
+  it("strict mode rejects with the exact invalid keys and evicts the entry", async () => {
+    const reports: string[][] = []
+    const { i18n, calls } = setup("strict", reports)
+
+    const err = (await i18n.load("en").catch((e) => e)) as DictionaryValidationError
+    expect(err.name).toBe("DictionaryValidationError")
+    expect(err.keys).toEqual(["nested", "empty", "n"])
+    expect(err.locale).toBe("en")
+    expect(err.source).toBe("/en.json")
+    expect(err.message).toContain('"nested", "empty", "n"')
+    expect(reports).toEqual([["nested", "empty", "n"]])
+
+    await expect(i18n.load("en")).rejects.toThrow("Invalid dictionary")
+    expect(calls()).toBe(2)
+  })
+
+  it("sanitize mode drops non-string values and reports them", async () => {
+    const reports: string[][] = []
+    const { i18n } = setup("sanitize", reports)
+
+    const t = i18n.createT(await i18n.load("en"))
+    expect(t("ok")).toBe("OK")
+    expect(t("nested")).toBe("nested") // key fallback instead of "[object Object]"
+    expect(t("empty")).toBe("empty")
+    expect(reports).toEqual([["nested", "empty", "n"]])
+  })
+
+  it("keeps valid payloads untouched", async () => {
+    const valid = { a: "A" }
+    const { i18n } = setup("sanitize", [], valid)
+    expect(await i18n.load("en")).toBe(valid)
+  })
+
+  it("rejects non-object payloads in any mode", async () => {
+    const { i18n } = setup("sanitize", [], ["a", "b"])
+    await expect(i18n.load("en")).rejects.toThrow("payload is not an object")
+  })
+})
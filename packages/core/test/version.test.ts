@@ -0,0 +1,87 @@
+import { describe, expect, it } from "bun:test"
+import {
+  checkDictionaryVersion,
+  createLokat,
+  type DictionaryVersionError,
+  hashDictionary,
+  type LokatOptions,
+  manifestKey,
+} from "../src/index"
+
+const FILES: Record<string, Record<string, string>> = {
+  "/en.json": { hi: "Hi", bye: "Bye" },
+  "/en/home.json": { "home.title": "Home" },
+  "/id.json": { hi: "Halo" },
+}
+
+function setup(extra: Partial<LokatOptions> = {}) {
+  return createLokat({
+    resolveLocaleUrl: (locale, ns) => (ns ? `/${locale}/${ns}.json` : `/${locale}.json`),
+    fetcher: async (input) => ({ json: async () => ({ ...FILES[input] }) }),
+    ...extra,
+  })
+}
+
+describe("@lokat/core dictionary versions", () => {
+  it("hashes content deterministically, independent of key order", () => {
+    const hash = hashDictionary({ a: "1", b: "2" })
+    expect(hash).toMatch(/^[0-9a-z]+$/)
+    expect(hashDictionary({ b: "2", a: "1" })).toBe(hash)
+    expect(hashDictionary({ a: "1", b: "3" })).not.toBe(hash)
+    expect(hashDictionary({ a: "12", b: "" })).not.toBe(hashDictionary({ a: "1", b: "2" }))
+    expect(hashDictionary(["OK", "Cancel"])).not.toBe(hashDictionary(["Cancel", "OK"]))
+    expect(manifestKey("en")).toBe("en")
+    expect(manifestKey("en", "common")).toBe("en/common")
+  })
+
+  it("builds a named error on mismatch only", () => {
+    const dict = { hi: "Hi" }
+    expect(checkDictionaryVersion(dict, undefined, "en")).toBeUndefined()
+    expect(checkDictionaryVersion(dict, hashDictionary(dict), "en")).toBeUndefined()
+    const err = checkDictionaryVersion(dict, "stale", "en", "common")
+    expect(err).toMatchObject({
+      name: "DictionaryVersionError",
+      locale: "en",
+      namespace: "common",
+      expected: "stale",
+      actual: hashDictionary(dict),
+    })
+    expect(err?.message).toContain('"en/common"')
+  })
+
+  it("exposes loaded versions and reports dictionaries that differ from the manifest", async () => {
+    const errors: DictionaryVersionError[] = []
+    const i18n = setup({
+      manifest: {
+        en: hashDictionary(FILES["/en.json"] as Record<string, string>),
+        "en/home": "stale",
+      },
+      onVersionMismatch: (err) => errors.push(err),
+    })
+    expect(i18n.version("en")).toBeUndefined()
+    await i18n.load("en")
+    await i18n.load("id")
+    expect(errors).toEqual([])
+    expect(i18n.version("en")).toBe(hashDictionary({ bye: "Bye", hi: "Hi" }))
+    expect(i18n.version("id")).toBe(hashDictionary({ hi: "Halo" }))
+
+    const home = await i18n.load("en", ["home"])
+    expect(home).toEqual({ "home.title": "Home" }) // still used
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toMatchObject({ locale: "en", namespace: "home", expected: "stale" })
+    expect(i18n.version("en", "home")).toBe(hashDictionary(home))
+  })
+
+  it("checks hydrated snapshots against the manifest", async () => {
+    const server = setup()
+    await server.load("en")
+    const errors: DictionaryVersionError[] = []
+    const client = setup({
+      manifest: { en: "rebuilt" },
+      onVersionMismatch: (err) => errors.push(err),
+      initialState: server.serialize("en"),
+    })
+    expect(errors.map((e) => e.actual)).toEqual([server.version("en") as string])
+    expect(client.version("en")).toBe(server.version("en"))
+  })
+})
@@ -0,0 +1,50 @@
+/**
+ * Solid context for a `SolidLokatInstance`, so components can stay agnostic of
+ * where the instance comes from (module, per-request SSR instance, test double).
+ */
+import { createComponent, createContext, type JSX, useContext } from "solid-js"
+import type { SolidLokatInstance } from "./index"
+
+// The context key is shared; the value is per provider, so each SSR render can carry its
+// own instance. Typed `unknown` here and narrowed by `useLokat<L>()`.
+const LokatContext = createContext<unknown>()
+
+/**
+ * Props for `LokatProvider`.
+ */
+export interface LokatProviderProps<L> {
+  /** Instance made available to `useLokat()` in the subtree. */
+  value: SolidLokatInstance<L>
+  children?: JSX.Element
+}
+
+/**
+ * Provide `value` to every `useLokat()` below it.
+ * @example
+ * // SSR: one instance per request
+ * const loc = createSolidLokat({ initialLocale: locale, initialDict: COMMON_EN, loadLocale })
+ * renderToString(() => <LokatProvider value={loc}><App /></LokatProvider>)
+ */
+export function LokatProvider<L>(props: LokatProviderProps<L>): JSX.Element {
+  return createComponent(LokatContext.Provider, {
+    get value() {
+      return props.value
+    },
+    get children() {
+      return props.children
+    },
+  })
+}
+
+/**
+ * Read the nearest provided instance.
+ * @throws Error when called outside a `LokatProvider`.
+ * @example
+ * const { t, locale } = useLokat<Locale>()
+ * t(CommonK.OK)
+ */
+export function useLokat<L = unknown>(): SolidLokatInstance<L> {
+  const instance = useContext(LokatContext)
+  if (!instance) throw new Error("useLokat() must be called inside <LokatProvider value={...}>")
+  return instance as SolidLokatInstance<L>
+}
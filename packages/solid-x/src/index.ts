@@ -11,8 +11,27 @@
  * - `dictRef()` exposes the raw readonly array for tight loops and array-style codegen.
  * - Instance-scoped single-flight cache with failure-safe behavior (no cache poisoning).
  * - SSR-friendly: supports `initialDict` for hydration without flash.
+ * - `LokatProvider` / `useLokat()` place the instance in Solid context (per-request SSR isolation).
+ * - `persist` restores the user's locale on start and saves it on `setLocale`.
+ * - `revalidate` refetches cached arrays in the background and swaps in changed content.
+ * - `on(type, listener)` reports locale changes, loads (duration, cache hits) and missing ids.
  */
-import { createSignal } from "solid-js"
+import {
+  type CacheControl,
+  type CacheOptions,
+  createEmitter,
+  createLruCache,
+  type Emitter,
+  type LocaleStore,
+  type LokatEvents,
+  type RevalidateOptions,
+  sameDictionary,
+  trackLoad,
+  watchRevalidation,
+} from "@lokat/core"
+import { createSignal, getOwner, onCleanup, untrack } from "solid-js"
+
+export { LokatProvider, type LokatProviderProps, useLokat } from "./context"
 
 /**
  * Options for `createSolidLokat` — Solid-first, extreme array-mode localization.
@@ -20,7 +39,12 @@ import { createSignal } from "solid-js"
  * Reactivity & Hydration
  * - `initialDict` seeds the readonly string array to avoid hydration flash.
  * - `initialLocale` seeds the locale signal; if `initialDict` is absent, it will
- *   asynchronously load the initial locale (fire-and-forget).
+ *   asynchronously load the initial locale (fire-and-forget; a failure is reported to
+ *   `dev.onError` and `loadError` listeners, even ones added after creation).
+ *
+ * Persistence
+ * - `persist` (a `LocaleStore` from `@lokat/core`) is read once on creation; a saved locale
+ *   replaces `initialLocale`. `setLocale` writes it once the new array is applied.
  *
  * Loader Contract
  * - `loadLocale(locale)` must resolve to a readonly string array, where indexes are integer IDs.
@@ -38,8 +62,30 @@ export interface SolidLokatOptions<L = unknown> {
   initialLocale: L
   /** Optional readonly array to avoid hydration flash and immediate network I/O. */
   initialDict?: readonly string[]
+  /**
+   * Remember the locale across reloads: read on creation (a saved locale replaces
+   * `initialLocale`, and `initialDict` when they differ), written after each applied `setLocale`.
+   * @example persist: persistLocalStorage("locale", { supported: ["en", "id"] })
+   */
+  persist?: LocaleStore<L>
   /** Locale loader returning a readonly array of strings, addressed by integer IDs. */
   loadLocale: (locale: L) => Promise<readonly string[]>
+  /**
+   * Update `locale()` only once the new array is applied, so `locale()`, `t` and
+   * `dictRef()` always agree. By default `locale()` switches immediately, before loading.
+   */
+  deferLocale?: boolean
+  /**
+   * Memory policy for loaded arrays: `maxEntries` (least recently used locales are dropped
+   * first) and `ttl` in ms. Unbounded by default; see the instance's `cache`.
+   */
+  cache?: CacheOptions
+  /**
+   * Stale-while-revalidate: loads keep returning cached arrays immediately, while they are
+   * refetched in the background every `interval` ms and/or on window focus. A changed array
+   * replaces the cached one and, for the current locale, the one on screen.
+   */
+  revalidate?: RevalidateOptions<L>
   /** Development-only diagnostics and behavior tweaks. */
   dev?: {
     /** Disable instance cache entirely (dev); production should leave this off. */
@@ -60,16 +106,40 @@ export interface SolidLokatOptions<L = unknown> {
  * - `preload(l)`: Loads and caches the array without changing the current locale.
  */
 export interface SolidLokatInstance<L = unknown> {
-  /** Translator: O(1) lookup `arr[id]`; zero allocation per call. No fallback. */
+  /**
+   * Translator: O(1) lookup `arr[id]`; zero allocation per call. No fallback: a missing id
+   * yields `undefined` (and a `missingKey` event, checked only while someone listens).
+   */
   t: (id: number) => string
   /** Locale signal getter: reactive in Solid components. */
   locale: () => L
-  /** Set a new locale and load its array; returns the loaded array. */
+  /**
+   * Set a new locale and load its array; returns the loaded array. Last call wins: a slower,
+   * earlier call never replaces the array of a newer one (it resolves without applying).
+   */
   setLocale: (l: L) => Promise<readonly string[]>
   /** Preload a locale's array without changing the current locale. */
   preload: (l: L) => Promise<readonly string[]>
   /** Performance accessor: current readonly array reference for tight loops. */
   dictRef: () => readonly string[]
+  /** Inspect and drop cached arrays; an invalidated locale is reloaded on its next use. */
+  cache: CacheControl<L>
+  /**
+   * Refetch loaded arrays (all, or `locale`'s); changed content is cached and, for the
+   * current locale, applied. Failed refetches keep the cached array.
+   * @returns The locales whose array changed.
+   */
+  revalidate: (locale?: L) => Promise<L[]>
+  /**
+   * Subscribe to instance events; returns the unsubscribe function. `localeChange`,
+   * `loadStart` / `loadSuccess` / `loadError` (every `preload`/`setLocale` load, with `cached`
+   * and `duration`; revalidation is silent) and `missingKey` (an id outside the array).
+   * Listener errors are rethrown asynchronously and never fail the load or lookup.
+   * @example onCleanup(i18n.on("missingKey", (e) => log.warn("i18n id", e.key, e.locale)))
+   */
+  on: Emitter<LokatEvents<L, number>>["on"]
+  /** Stop background revalidation (interval timer and focus listeners). */
+  dispose: () => void
 }
 
 type Dict = readonly string[]
@@ -83,7 +153,8 @@ type Dict = readonly string[]
  * - SSR/CSR/Edge compatible: the loader is fully controlled by the consumer.
  *
  * Caching
- * - Instance-scoped `Map<L, Promise<readonly string[]>>` ensures single-flight per locale.
+ * - Instance-scoped LRU cache of `Promise<readonly string[]>` ensures single-flight per locale.
+ * - `cache: { maxEntries, ttl }` bounds it; `instance.cache` inspects and invalidates entries.
  * - Set `dev.disableCache` to force reloads in development workflows.
  *
  * @example Basic usage with precompiled array
@@ -122,48 +193,92 @@ type Dict = readonly string[]
 export function createSolidLokat<L = unknown>(
   options: SolidLokatOptions<L>,
 ): SolidLokatInstance<L> {
-  const [locale, setLocaleSignal] = createSignal<L>(options.initialLocale)
-  let currentDict: Dict = options.initialDict ?? []
+  // A persisted choice wins over `initialLocale`; the stores return nothing on the server.
+  const restored = options.persist?.read()
+  const initialLocale = restored === undefined ? options.initialLocale : restored
+  const initialDict = initialLocale === options.initialLocale ? options.initialDict : undefined
+  const [locale, setLocaleSignal] = createSignal<L>(initialLocale)
+  let currentDict: Dict = initialDict ?? []
   const [_dictSignal, setDictSignal] = createSignal<Dict>(currentDict)
 
+  // Subscribers of `on`.
+  const events = createEmitter<LokatEvents<L, number>>()
+
+  // Whether an array is on screen (`initialDict` or a loaded one); ids read before are not misses.
+  let hasDict = initialDict !== undefined
+
   // Hot-path translator. Rebind this function when the dictionary changes
   // so JVM/JS engines can optimize a monomorphic call site. It closes over
   // the current dictionary value directly.
-  let t = (id: number): string => currentDict[id] as string
+  let t = bind(currentDict)
+
+  const cache = createLruCache<L, Promise<Dict>>(options.cache, (l) => settled.delete(l))
+  // Resolved arrays by locale, for `revalidate`.
+  const settled = new Map<L, Dict>()
+  // Locale the current array was loaded for.
+  let dictLocale = initialLocale
+
+  // Report an id outside the current array; the lookup still yields `undefined`.
+  function missing(id: number): undefined {
+    events.emit("missingKey", { key: id, locale: dictLocale })
+    return undefined
+  }
+
+  // Translator over `d`: a plain index read unless `missingKey` has listeners and an array
+  // is on screen, so `t` only checks for misses while someone receives them.
+  function bind(d: Dict): (id: number) => string {
+    if (!hasDict || !events.has("missingKey")) return (id: number): string => d[id] as string
+    return (id: number): string => (d[id] ?? missing(id)) as string
+  }
+
+  // `on`, rebinding `t` when `missingKey` listeners come and go.
+  const on: SolidLokatInstance<L>["on"] = (type, listener) => {
+    const off = events.on(type, listener)
+    if (type !== "missingKey") return off
+    t = bind(currentDict)
+    return () => {
+      off()
+      t = bind(currentDict)
+    }
+  }
 
-  const cache = new Map<L, Promise<Dict>>()
+  // Update the locale signal, reporting actual changes.
+  function applyLocale(l: L) {
+    const previous = untrack(locale)
+    setLocaleSignal(() => l as L)
+    if (l !== previous) events.emit("localeChange", { locale: l, previous })
+  }
 
   function setDictInternal(d: Dict) {
-    if (currentDict !== d) {
+    if (currentDict !== d || !hasDict) {
       currentDict = d
+      hasDict = true
       // Rebind hot-path translator to close over the new dictionary.
-      t = (id: number): string => d[id] as string
+      t = bind(d)
       setDictSignal(d)
     }
   }
 
-  async function load(l: L): Promise<Dict> {
-    if (!options.dev?.disableCache) {
-      const cached = cache.get(l)
-      if (cached) {
-        const d = await cached
-        setDictInternal(d)
-        return d
-      }
+  // Switch sequence: only the most recent `load` may apply its array, so a slow earlier
+  // locale can never overwrite a newer one.
+  let seq = 0
+
+  async function load(l: L, fetch: (l: L) => Promise<Dict> = preload): Promise<Dict> {
+    const id = ++seq
+    const d = await fetch(l)
+    if (id === seq) {
+      setDictInternal(d)
+      dictLocale = l
+      if (options.deferLocale) applyLocale(l)
     }
-    // Ensure failures do not poison the cache: remove the cache entry on reject.
-    const promise = options.loadLocale(l).catch((e) => {
-      if (!options.dev?.disableCache) cache.delete(l)
-      throw e
-    })
-    if (!options.dev?.disableCache) cache.set(l, promise)
-    const d = await promise
-    setDictInternal(d)
     return d
   }
 
-  if (!options.initialDict) {
-    void load(options.initialLocale)
+  if (!initialDict) {
+    // Nobody awaits it: a failure reaches `loadError` listeners and `dev.onError` instead.
+    load(initialLocale, preloadInitial).catch((e: unknown) =>
+      options.dev?.onError?.(e, initialLocale),
+    )
   }
 
   // Expose the hot-path translator. It will be rebound by `setDictInternal`.
@@ -172,27 +287,122 @@ export function createSolidLokat<L = unknown>(
   }
 
   function set(l: L): Promise<Dict> {
-    setLocaleSignal(() => l as L)
+    if (!options.deferLocale) applyLocale(l)
     options.dev?.onLocaleChange?.(l)
-    return load(l).catch((e) => {
-      options.dev?.onError?.(e, l)
-      throw e
-    })
+    const loading = load(l)
+    const id = seq
+    return loading.then(
+      (d) => {
+        // Save only the switch that was applied, not one superseded meanwhile.
+        if (id === seq) options.persist?.write(l)
+        return d
+      },
+      (e) => {
+        options.dev?.onError?.(e, l)
+        throw e
+      },
+    )
   }
 
   function preload(l: L): Promise<Dict> {
+    return trackLoad(
+      events,
+      { locale: l },
+      () => !options.dev?.disableCache && cache.has(l),
+      () => preloadCached(l),
+    )
+  }
+
+  // The initial load starts right away but is reported a microtask later, to the listeners
+  // subscribed right after creation.
+  function preloadInitial(l: L): Promise<Dict> {
+    const cached = !options.dev?.disableCache && cache.has(l)
+    const loading = preloadCached(l)
+    // Its failure reaches the caller through `loading`.
+    Promise.resolve()
+      .then(() =>
+        trackLoad(
+          events,
+          { locale: l },
+          () => cached,
+          () => loading,
+        ),
+      )
+      .catch(() => {})
+    return loading
+  }
+
+  function preloadCached(l: L): Promise<Dict> {
     if (!options.dev?.disableCache) {
       const cached = cache.get(l)
       if (cached) return cached
     }
-    // Avoid poisoning cache on loader rejection.
-    const promise = options.loadLocale(l).catch((e) => {
-      if (!options.dev?.disableCache) cache.delete(l)
-      throw e
-    })
+    // Avoid poisoning cache on loader rejection (unless the entry was replaced meanwhile).
+    const promise: Promise<Dict> = options.loadLocale(l).then(
+      (d) => {
+        if (cache.peek(l) === promise) settled.set(l, d)
+        return d
+      },
+      (e) => {
+        if (cache.peek(l) === promise) cache.delete(l)
+        throw e
+      },
+    )
     if (!options.dev?.disableCache) cache.set(l, promise)
     return promise
   }
 
-  return { t: tWrapper, locale, setLocale: set, preload, dictRef: () => currentDict }
+  async function revalidate(target?: L): Promise<L[]> {
+    const loaded = new Map(settled)
+    if (currentDict.length) loaded.set(dictLocale, currentDict)
+    const changed: L[] = []
+    await Promise.all(
+      Array.from(loaded).map(async ([l, stale]) => {
+        if (target !== undefined && l !== target) return
+        let fresh: Dict
+        try {
+          fresh = await options.loadLocale(l)
+        } catch (e) {
+          options.dev?.onError?.(e, l)
+          return
+        }
+        if (sameDictionary(stale, fresh)) return
+        // Keep what replaced `stale` meanwhile (a newer load); `initialDict` is cached now.
+        if (settled.get(l) === stale || cache.peek(l) === undefined) {
+          cache.set(l, Promise.resolve(fresh))
+          settled.set(l, fresh)
+        }
+        if (currentDict === stale && dictLocale === l) setDictInternal(fresh)
+        changed.push(l)
+        options.revalidate?.onUpdate?.(l)
+      }),
+    )
+    return changed
+  }
+
+  const { interval, onFocus } = options.revalidate ?? {}
+  const dispose =
+    interval !== undefined || onFocus
+      ? watchRevalidation(options.revalidate as RevalidateOptions<never>, () => revalidate())
+      : () => {}
+  if (getOwner()) onCleanup(dispose)
+
+  const control: CacheControl<L> = {
+    has: (l) => cache.has(l),
+    invalidate: (l) => cache.delete(l),
+    clear: () => cache.clear(),
+    entries: () => cache.entries().map(({ key, createdAt }) => ({ locale: key, createdAt })),
+  }
+
+  return {
+    t: tWrapper,
+    locale,
+    setLocale: set,
+    preload,
+    dictRef: () => currentDict,
+    cache: control,
+    revalidate,
+    on,
+    dispose,
+  }
 }
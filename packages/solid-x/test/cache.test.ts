@@ -0,0 +1,28 @@
+import { describe, expect, it } from "bun:test"
+import { createSolidLokat } from "../src/index.ts"
+
+describe("@lokat/solid-x cache", () => {
+  it("bounds the cache and reloads invalidated locales", async () => {
+    const loaded: string[] = []
+    const loc = createSolidLokat({
+      initialLocale: "en",
+      initialDict: ["OK"],
+      cache: { maxEntries: 2 },
+      loadLocale: async (l: string) => {
+        loaded.push(l)
+        return [`ok-${l}`]
+      },
+    })
+
+    await loc.preload("id")
+    await loc.preload("fr")
+    await loc.preload("de") // evicts id
+    expect(loc.cache.entries().map((e) => e.locale)).toEqual(["fr", "de"])
+    expect(loc.cache.invalidate("fr")).toBe(true)
+    await loc.preload("fr")
+    await loc.preload("de")
+    expect(loaded).toEqual(["id", "fr", "de", "fr"])
+    loc.cache.clear()
+    expect(loc.cache.has("de")).toBe(false)
+  })
+})
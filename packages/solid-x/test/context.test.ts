@@ -0,0 +1,32 @@
+import { describe, expect, it } from "bun:test"
+import { createComponent, createRoot } from "solid-js"
+import { createSolidLokat, LokatProvider, useLokat } from "../src/index.ts"
+
+// Provider output may be an accessor; unwrap it for assertions.
+const unwrap = (el: unknown): unknown => (typeof el === "function" ? unwrap(el()) : el)
+
+const instance = (dict: readonly string[]) =>
+  createSolidLokat({ initialLocale: "en", initialDict: dict, loadLocale: async () => dict })
+
+describe("@lokat/solid-x context", () => {
+  it("provides a per-tree instance to useLokat()", () => {
+    const render = (loc: ReturnType<typeof instance>) =>
+      createRoot(() =>
+        unwrap(
+          createComponent(LokatProvider, {
+            value: loc,
+            get children() {
+              return useLokat().t(0)
+            },
+          }),
+        ),
+      )
+
+    expect(render(instance(["OK"]))).toBe("OK")
+    expect(render(instance(["Oke"]))).toBe("Oke")
+  })
+
+  it("throws a clear error outside a provider", () => {
+    expect(() => createRoot(() => useLokat())).toThrow("inside <LokatProvider")
+  })
+})
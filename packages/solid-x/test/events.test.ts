@@ -0,0 +1,88 @@
+import { describe, expect, it } from "bun:test"
+import type { LokatEvents } from "@lokat/core"
+import { createSolidLokat } from "../src/index.ts"
+
+describe("@lokat/solid-x events", () => {
+  it("reports locale changes, loads and missing ids", async () => {
+    const loc = createSolidLokat({
+      initialLocale: "en",
+      initialDict: ["OK"],
+      loadLocale: async (l: string) => {
+        if (l === "fr") throw new Error("no fr")
+        return [`ok-${l}`]
+      },
+    })
+    const seen: unknown[] = []
+    const missing: LokatEvents<string, number>["missingKey"][] = []
+    loc.on("localeChange", (e) => seen.push(["change", e]))
+    loc.on("loadStart", (e) => seen.push(["start", e]))
+    loc.on("loadSuccess", (e) => seen.push(["success", e.locale, e.cached]))
+    loc.on("loadError", (e) => seen.push(["error", e.locale, (e.error as Error).message]))
+    const off = loc.on("missingKey", (e) => missing.push(e))
+
+    expect(loc.t(0)).toBe("OK")
+    expect(loc.t(3)).toBeUndefined()
+    await loc.setLocale("id")
+    await loc.preload("id")
+    await expect(loc.preload("fr")).rejects.toThrow("no fr")
+    expect(loc.t(1)).toBeUndefined()
+    off()
+    loc.t(2)
+
+    expect(seen).toEqual([
+      ["change", { locale: "id", previous: "en" }],
+      ["start", { locale: "id", cached: false }],
+      ["success", "id", false],
+      ["start", { locale: "id", cached: true }],
+      ["success", "id", true],
+      ["start", { locale: "fr", cached: false }],
+      ["error", "fr", "no fr"],
+    ])
+    expect(missing).toEqual([
+      { key: 3, locale: "en" },
+      { key: 1, locale: "id" },
+    ])
+  })
+
+  it("does not report ids read before the first array arrives", async () => {
+    let release: (d: string[]) => void = () => {}
+    const loc = createSolidLokat({
+      initialLocale: "en",
+      loadLocale: () =>
+        new Promise<string[]>((resolve) => {
+          release = resolve
+        }),
+    })
+    const missing: number[] = []
+    loc.on("missingKey", (e) => missing.push(e.key))
+    expect(loc.t(0)).toBeUndefined()
+    release(["OK"])
+    await loc.preload("en")
+    expect(loc.t(0)).toBe("OK")
+    expect(loc.t(1)).toBeUndefined()
+    expect(missing).toEqual([1])
+  })
+
+  it("reports the initial load to listeners added after creation", async () => {
+    const errors: unknown[] = []
+    const failing = createSolidLokat({
+      initialLocale: "fr",
+      loadLocale: async (): Promise<string[]> => {
+        throw new Error("no fr")
+      },
+      dev: { onError: (e, l) => errors.push([l, (e as Error).message]) },
+    })
+    const seen: unknown[] = []
+    failing.on("loadStart", (e) => seen.push(["start", e]))
+    failing.on("loadError", (e) => seen.push(["error", e.locale, (e.error as Error).message]))
+    const loaded = createSolidLokat({ initialLocale: "en", loadLocale: async () => ["OK"] })
+    loaded.on("loadSuccess", (e) => seen.push(["success", e.locale, e.cached]))
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(errors).toEqual([["fr", "no fr"]])
+    expect(seen).toEqual([
+      ["start", { locale: "fr", cached: false }],
+      ["error", "fr", "no fr"],
+      ["success", "en", false],
+    ])
+  })
+})
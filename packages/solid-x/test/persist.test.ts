@@ -0,0 +1,35 @@
+import { describe, expect, it } from "bun:test"
+import type { LocaleStore } from "@lokat/core"
+import { createSolidLokat } from "../src/index.ts"
+
+describe("@lokat/solid-x locale persistence", () => {
+  it("restores the saved locale and saves applied switches", async () => {
+    let saved: string | undefined = "id"
+    const store: LocaleStore<string> = {
+      read: () => saved,
+      write: (l) => {
+        saved = l
+      },
+    }
+    const loaded: string[] = []
+    const loc = createSolidLokat({
+      initialLocale: "en",
+      initialDict: ["OK"],
+      persist: store,
+      loadLocale: async (l: string) => {
+        loaded.push(l)
+        if (l === "xx") throw new Error("404")
+        return [`ok-${l}`]
+      },
+    })
+
+    expect(loc.locale()).toBe("id")
+    await loc.preload("id")
+    expect(loaded).toEqual(["id"])
+
+    await loc.setLocale("de")
+    expect(saved).toBe("de")
+    await expect(loc.setLocale("xx")).rejects.toThrow("404")
+    expect(saved).toBe("de")
+  })
+})
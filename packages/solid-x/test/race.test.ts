@@ -0,0 +1,48 @@
+import { describe, expect, it } from "bun:test"
+import { createSolidLokat } from "../src/index.ts"
+
+// Loader whose per-locale promises are resolved manually, in any order.
+function deferredLoader() {
+  const pending = new Map<string, (d: readonly string[]) => void>()
+  const loadLocale = (l: string) =>
+    new Promise<readonly string[]>((resolve) => {
+      pending.set(l, resolve)
+    })
+  const resolve = (l: string) => pending.get(l)?.([`ok-${l}`])
+  return { loadLocale, resolve }
+}
+
+describe("@lokat/solid-x setLocale races", () => {
+  it("keeps the last requested locale when an earlier load resolves later", async () => {
+    const { loadLocale, resolve } = deferredLoader()
+    const loc = createSolidLokat({ initialLocale: "en", initialDict: ["ok-en"], loadLocale })
+
+    const fr = loc.setLocale("fr")
+    const de = loc.setLocale("de")
+    resolve("de")
+    await de
+    resolve("fr")
+    expect(await fr).toEqual(["ok-fr"])
+
+    expect(loc.locale()).toBe("de")
+    expect(loc.t(0)).toBe("ok-de")
+    expect(loc.dictRef()).toEqual(["ok-de"])
+  })
+
+  it("deferLocale keeps locale() in step with the array", async () => {
+    const { loadLocale, resolve } = deferredLoader()
+    const loc = createSolidLokat({
+      initialLocale: "en",
+      initialDict: ["ok-en"],
+      deferLocale: true,
+      loadLocale,
+    })
+
+    const fr = loc.setLocale("fr")
+    expect(loc.locale()).toBe("en")
+    resolve("fr")
+    await fr
+    expect(loc.locale()).toBe("fr")
+    expect(loc.t(0)).toBe("ok-fr")
+  })
+})
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "bun:test"
+import { createSolidLokat } from "../src/index.ts"
+
+describe("@lokat/solid-x revalidation", () => {
+  it("swaps in changed arrays only", async () => {
+    const remote: Record<string, readonly string[]> = { en: ["OK"], id: ["Oke"] }
+    const loc = createSolidLokat({
+      initialLocale: "en",
+      initialDict: ["OK"],
+      loadLocale: async (l: string) => [...(remote[l] ?? [])],
+    })
+    await loc.preload("id")
+    const onScreen = loc.dictRef()
+    expect(await loc.revalidate()).toEqual([])
+    expect(loc.dictRef()).toBe(onScreen)
+
+    remote.en = ["Okay"]
+    expect(await loc.revalidate("en")).toEqual(["en"])
+    expect(loc.t(0)).toBe("Okay")
+    loc.dispose()
+  })
+})
@@ -0,0 +1,61 @@
+/**
+ * Solid context for a `SolidLokatInstance`, so components can stay agnostic of
+ * where the instance comes from (module, per-request SSR instance, test double).
+ */
+import { createComponent, createContext, type JSX, useContext } from "solid-js"
+import type { SolidLokatInstance } from "./index"
+
+// The context key is shared; the value is per provider, so each SSR render can carry its
+// own instance. Typed `unknown` here and narrowed by `useLokat<L, D>()`.
+const LokatContext = createContext<unknown>()
+
+/**
+ * Props for `LokatProvider`.
+ */
+export interface LokatProviderProps<L, D extends Record<string, string>> {
+  /** Instance made available to `useLokat()` in the subtree. */
+  value: SolidLokatInstance<L, D>
+  children?: JSX.Element
+}
+
+/**
+ * Provide `value` to every `useLokat()` (and `<Trans>` without `i18n`) below it.
+ * @example
+ * // SSR: one instance per request
+ * const i18n = createSolidLokat({ initialLocale: locale, initialDict: dict, loadLocale })
+ * renderToString(() => <LokatProvider value={i18n}><App /></LokatProvider>)
+ */
+export function LokatProvider<L, D extends Record<string, string>>(
+  props: LokatProviderProps<L, D>,
+): JSX.Element {
+  return createComponent(LokatContext.Provider, {
+    get value() {
+      return props.value
+    },
+    get children() {
+      return props.children
+    },
+  })
+}
+
+/**
+ * Read the nearest provided instance.
+ * @throws Error when called outside a `LokatProvider`.
+ * @example
+ * const { t, locale, setLocale } = useLokat<Locale, I18nDict>()
+ */
+export function useLokat<
+  L = unknown,
+  D extends Record<string, string> = Record<string, string>,
+>(): SolidLokatInstance<L, D> {
+  const instance = useContext(LokatContext)
+  if (!instance) throw new Error("useLokat() must be called inside <LokatProvider value={...}>")
+  return instance as SolidLokatInstance<L, D>
+}
+
+/**
+ * Internal: the nearest provided instance, if any.
+ */
+export function lokatFromContext(): unknown {
+  return useContext(LokatContext)
+}
@@ -8,28 +8,124 @@
  *
  * Highlights:
  * - Hot-path `t(key)` performs a plain object property read without reactive tracking.
+ * - `tr(key)` is the tracked variant for JSX: it re-runs when the dictionary changes.
+ * - `t(key, params)` interpolates `{name}` placeholders via `@lokat/core`; params may be accessors.
+ * - `t(key, { count })` selects CLDR plural variants (`key_one`, `key_other`, ...) per locale.
+ * - ICU MessageFormat (`plural`, `select`, nested) via `parseMessage` or precompiled ASTs.
+ * - `tRich(key, components)` / `<Trans>` map `<tag>…</tag>` markers to Solid components, no `innerHTML`.
+ * - `LokatProvider` / `useLokat()` place the instance in Solid context (per-request SSR isolation).
+ * - `format` exposes cached `Intl` formatters that follow the `locale()` signal.
+ * - `direction()` / `htmlAttributes()` report `ltr`/`rtl`; `syncHtml` keeps `<html lang dir>` in step.
  * - `dictRef()` returns the non-reactive dictionary reference for performance-critical loops.
  * - Instance-scoped single-flight cache and SSR hydration support via `initialDict`.
+ * - `serialize()` / `initialState` transfer the server's dictionaries to the client cache.
+ * - `persist` restores the user's locale on start and saves it on `setLocale`.
+ * - `revalidate` refetches cached dictionaries in the background and swaps in changed content.
+ * - `version()` hashes dictionaries; hydration reports an `initialDict` that differs from the server's.
+ * - `on(type, listener)` reports locale changes, loads (duration, cache hits) and missing keys.
  * - Dev hooks: `onLocaleChange`, `onError` and `dev.disableCache` for development workflows.
  */
-import { createSignal } from "solid-js"
+import {
+  type CacheControl,
+  type CacheOptions,
+  checkDictionaryVersion,
+  compileMessages,
+  createEmitter,
+  createFormatters,
+  createIntlCache,
+  createLruCache,
+  createPluralRules,
+  createTranslator,
+  type DictionaryManifest,
+  type Emitter,
+  type Formatters,
+  flattenDictionary,
+  type HtmlAttributes,
+  hashDictionary,
+  htmlAttributes,
+  type LocaleStore,
+  type LokatEvents,
+  type LokatState,
+  type MessageAst,
+  type MessageFunction,
+  type NestedDictionary,
+  type PrecompiledMessages,
+  type PseudoLocalizer,
+  parseState,
+  type RevalidateOptions,
+  sameDictionary,
+  serializeState,
+  type TextDirection,
+  type TranslateParams,
+  type TranslationKey,
+  type Translator,
+  textDirection,
+  trackLoad,
+  watchRevalidation,
+} from "@lokat/core"
+import {
+  createMemo,
+  createResource,
+  createSignal,
+  getOwner,
+  type JSX,
+  onCleanup,
+  untrack,
+} from "solid-js"
+import { lokatFromContext } from "./context"
+import { escapeParams, type RichComponents, renderRich } from "./rich"
+
+export { LokatProvider, type LokatProviderProps, useLokat } from "./context"
+export type { RichComponents } from "./rich"
 
 /**
  * Options for `createSolidLokat` — Solid-first localization.
  *
  * Reactivity & Hydration
  * - `initialDict` avoids a flash during hydration by seeding the dictionary.
+ * - `initialState` (the server instance's `serialize()` output) seeds the cache with every
+ *   dictionary the server loaded, and the dictionary for `initialLocale` when `initialDict` is absent.
  * - `initialLocale` seeds the locale signal; if `initialDict` is absent, it will
- *   asynchronously load the initial locale (fire-and-forget).
+ *   asynchronously load the initial locale (fire-and-forget; a failure is reported to
+ *   `dev.onError` and `loadError` listeners, even ones added after creation).
+ * - `suspense: true` loads through a Solid resource instead: `t()` suspends the nearest
+ *   `<Suspense>` until the dictionary for `locale()` is ready (also during SSR streaming),
+ *   and `startTransition(() => setLocale(l))` keeps the previous locale on screen meanwhile.
+ *
+ * Versions
+ * - Snapshots record each dictionary's content hash. On creation, an `initialDict` whose hash
+ *   differs from the snapshot's entry for the initial locale (or, without one, from `manifest`)
+ *   is reported to `dev.onError` as a `DictionaryVersionError`: the client would hydrate text
+ *   the server did not render. Loaded and hydrated dictionaries are checked against `manifest`.
+ *
+ * Persistence
+ * - `persist` (a `LocaleStore` from `@lokat/core`: localStorage, cookie, path prefix, query, or your
+ *   own) is read once on creation; a saved locale replaces `initialLocale`. `setLocale` writes it
+ *   once the new dictionary is applied (superseded and failed switches are not saved).
  *
  * Loader Contract
- * - `loadLocale(locale)` must resolve to a flat dictionary `{ key: value }`.
+ * - `loadLocale(locale)` must resolve to a flat dictionary `{ key: value }`,
+ *   or to nested JSON when `flatten` is set (flattened once per load).
  * - You control how the dictionary is retrieved: `fetch`, import, in-memory, etc.
  *
+ * Plurals
+ * - `t(key, { count })` reads `key_<category>` using `Intl.PluralRules` for the locale.
+ * - Non-string locales need `toLanguageTag` to pick the rules; otherwise the runtime default applies.
+ *
+ * ICU messages
+ * - Pass `parseMessage` from `@lokat/core` to compile `{n, plural, ...}` / `{g, select, ...}`
+ *   values once per load; or pass `precompiled` ASTs from `@lokat/gen` to skip the parser.
+ *
+ * Missing keys
+ * - `onMissingKey(key, locale)` is opt-in; `t` only checks lookups that miss.
+ * - Misses are also emitted as `missingKey` events (see `on`).
+ * - Pair with `createMissingKeyCollector` from `@lokat/core` to de-duplicate and export misses.
+ *
  * Dev-only Hooks (removed from prod builds by bundlers)
  * - `disableCache`: forces every `preload`/`setLocale` to re-load.
+ * - `pseudo`: pseudo-localizes every translation and marks missing keys (UI testing).
  * - `onLocaleChange`: invoked when `setLocale` is called (before loading).
- * - `onError`: invoked if loading fails; `setLocale` will reject.
+ * - `onError`: invoked if loading fails (`setLocale` will reject), and on version mismatches.
  *
  * @typeParam L Opaque locale type (string, object, enum, snapshot, etc.).
  */
@@ -38,15 +134,90 @@ export interface SolidLokatOptions<L = unknown> {
   initialLocale: L
   /** Optional dictionary to avoid hydration flash and immediate network I/O. */
   initialDict?: Record<string, string>
-  /** Locale loader returning a flat dictionary. */
-  loadLocale: (locale: L) => Promise<Record<string, string>>
+  /**
+   * Snapshot from the server instance's `serialize()` (string or parsed). Its entries are
+   * cached without calling `loadLocale`; locales are matched with `===`, so use primitive
+   * (JSON round-trippable) locales.
+   */
+  initialState?: LokatState<L> | string
+  /**
+   * Remember the locale across reloads: read on creation (a saved locale replaces
+   * `initialLocale`, and `initialDict` when they differ), written after each applied `setLocale`.
+   * @example persist: persistCookie("locale", { supported: ["en", "id"] })
+   */
+  persist?: LocaleStore<L>
+  /**
+   * Expected content hash per language tag (see `toLanguageTag`), e.g. `i18n.manifest.ts` from
+   * `@lokat/gen`. Dictionaries that differ are still used, and reported to `dev.onError`.
+   */
+  manifest?: DictionaryManifest
+  /** Locale loader returning a flat dictionary (or nested JSON with `flatten`). */
+  loadLocale: (locale: L) => Promise<Record<string, string> | NestedDictionary>
+  /**
+   * Flatten nested loader results into dot-notation keys (or `separator`-joined keys) once
+   * per load. Colliding paths reject the load with a `DictionaryKeyCollisionError`.
+   */
+  flatten?: boolean | { separator?: string }
+  /**
+   * Keep `document.documentElement.lang` and `dir` in step with `locale()` (from creation on).
+   * No-op without a `document` (SSR); render `htmlAttributes()` into the server's `<html>` instead.
+   */
+  syncHtml?: boolean
+  /** BCP 47 tag for a locale (plural rules). Defaults to the locale itself when it is a string. */
+  toLanguageTag?: (locale: L) => string
+  /**
+   * ICU MessageFormat parser (`parseMessage` from `@lokat/core`). ICU values are compiled
+   * once per load; a syntax error rejects the load with a `MessageFormatError`.
+   */
+  parseMessage?: (message: string) => MessageAst
+  /**
+   * ICU ASTs precompiled by `@lokat/gen`, by language tag then source message; used instead of
+   * parsing. A value that no longer matches its source (e.g. after revalidation) is parsed instead.
+   */
+  precompiled?: PrecompiledMessages
+  /**
+   * Called whenever `t` falls back to the key, with the locale of the current dictionary.
+   * Keys rendered before the first dictionary is applied are not reported.
+   */
+  onMissingKey?: (key: string, locale: L) => void
+  /**
+   * Update `locale()` only once the new dictionary is applied, so `locale()`, `t` and
+   * `dictRef()` always agree. By default `locale()` switches immediately, before loading.
+   */
+  deferLocale?: boolean
+  /**
+   * Load dictionaries through `createResource(locale)` so `t()` reads suspend inside
+   * `<Suspense>`. Create the instance under a reactive owner (e.g. in the root component).
+   */
+  suspense?: boolean
+  /**
+   * Memory policy for loaded dictionaries: `maxEntries` (least recently used locales are
+   * dropped first) and `ttl` in ms. Unbounded by default; see the instance's `cache`.
+   */
+  cache?: CacheOptions
+  /**
+   * Stale-while-revalidate: loads keep returning cached dictionaries immediately, while they
+   * are refetched in the background every `interval` ms and/or on window focus. A changed
+   * dictionary replaces the cached one and, for the current locale, the one on screen.
+   * Stopped by `dispose()` or when the owning reactive scope is cleaned up.
+   */
+  revalidate?: RevalidateOptions<L>
   /** Development-only diagnostics and behavior tweaks. */
   dev?: {
     /** Disable instance cache entirely (dev); production should leave this off. */
     disableCache?: boolean
+    /**
+     * Pseudo-localize `t`, `tr`, `tRich` and `<Trans>`: accents, `~` padding and `[...]` markers
+     * with placeholders kept; missing keys render as `[!! key !!]`. `dictRef()`, the cache and
+     * `serialize()` keep the real dictionaries. Pass `createPseudoLocalizer()` from `@lokat/core`.
+     */
+    pseudo?: PseudoLocalizer | undefined
     /** Callback fired before a new locale is loaded via `setLocale`. */
     onLocaleChange?: (locale: L) => void
-    /** Callback fired when a load attempt fails; `setLocale` will reject. */
+    /**
+     * Callback fired when a load attempt fails (`setLocale` will reject), or with a
+     * `DictionaryVersionError` when a dictionary does not match its expected version.
+     */
     onError?: (error: unknown, locale: L) => void
   }
 }
@@ -54,20 +225,54 @@ export interface SolidLokatOptions<L = unknown> {
 /**
  * Public API returned by `createSolidLokat`.
  *
- * - `t(key)`: Reads the current dictionary and returns the localized string or the key.
+ * - `t(key, params?)`: Reads the current dictionary and returns the localized string or the key,
+ *   substituting `{name}` placeholders when `params` is given.
  * - `locale()`: A Solid signal getter returning the current locale.
  * - `setLocale(l)`: Updates the locale, emits hooks, loads the dictionary, updates signals.
  * - `preload(l)`: Loads and caches the dictionary without changing the current locale.
+ *
+ * @typeParam L Opaque locale type.
+ * @typeParam D Dictionary type restricting `t` to known keys and their params.
  */
-export interface SolidLokatInstance<L = unknown> {
-  /** Translator: O(1) lookup `dict[key] ?? key`; zero allocation per call. */
-  t: (key: string) => string
+export interface SolidLokatInstance<
+  L = unknown,
+  D extends Record<string, string> = Record<string, string>,
+> {
+  /**
+   * Translator: O(1) lookup `dict[key] ?? key`; zero allocation per call.
+   * With `params`, substitutes `{name}` placeholders (values may be accessors such as signals);
+   * a numeric `count` selects the plural variant `key_<category>`.
+   */
+  t: Translator<D>
+  /**
+   * Tracked translator: same result as `t`, but subscribes to the dictionary signal, so JSX
+   * and effects re-run after `setLocale` without reading `locale()`. Use `t` in tight loops.
+   * @example <h1>{i18n.tr("home.title")}</h1>
+   */
+  tr: Translator<D>
   /** Locale signal getter: reactive in Solid components. */
   locale: () => L
+  /**
+   * Number, currency, date, relative-time and list formatters for the current locale.
+   * Each call reads `locale()`, so formatted output in JSX updates after `setLocale`.
+   * `Intl` objects are cached per language tag + options within the instance.
+   */
+  format: Formatters
+  /** Writing direction of `locale()` (`"rtl"` for Arabic, Hebrew, ...); reactive. */
+  direction: () => TextDirection
+  /**
+   * `lang` and `dir` for the server-rendered `<html>` tag; `lang` is empty when the locale
+   * has no language tag (see `toLanguageTag`).
+   * @example
+   * const { lang, dir } = i18n.htmlAttributes()
+   * html = `<html lang="${lang}" dir="${dir}">`
+   */
+  htmlAttributes: () => HtmlAttributes
   /** Performance accessor: current plain dictionary reference for tight loops. */
   dictRef: () => Record<string, string>
   /**
-   * Set a new locale and load its dictionary.
+   * Set a new locale and load its dictionary. Last call wins: a slower, earlier call
+   * never replaces the dictionary of a newer one (it resolves without applying).
    * @param l The next locale.
    * @returns The loaded dictionary.
    */
@@ -78,8 +283,99 @@ export interface SolidLokatInstance<L = unknown> {
    * @returns The loaded dictionary.
    */
   preload: (l: L) => Promise<Record<string, string>>
+  /**
+   * Rich translation: `<tag>…</tag>` and `<tag/>` markers in the translated string are rendered
+   * with `components[tag]`; tags without a component keep their content as text. Nothing goes
+   * through `innerHTML`, and `<` inside string params is never parsed as a tag.
+   *
+   * Reactive: re-renders when the dictionary changes and when accessor params change.
+   * @example
+   * // "terms": "Read our <link>terms</link>, {name}."
+   * i18n.tRich("terms", { link: (p) => <a href="/terms">{p.children}</a> }, { name })
+   */
+  tRich: (
+    key: TranslationKey<D>,
+    components: RichComponents,
+    params?: TranslateParams,
+  ) => JSX.Element
+  /**
+   * Script-safe JSON snapshot of `locale()` and every dictionary loaded so far, for the
+   * client's `initialState`. Pending and failed loads are left out.
+   * @example
+   * html += `<script id="lokat" type="application/json">${i18n.serialize()}</script>`
+   */
+  serialize: () => string
+  /**
+   * Seed the cache from a `serialize()` snapshot; entries already cached are kept. If no
+   * dictionary is applied yet, the snapshot's dictionary for `locale()` is applied at once.
+   * @throws TypeError when `state` is not a Lokat snapshot.
+   */
+  hydrate: (state: LokatState<L> | string) => void
+  /**
+   * Inspect and drop cached dictionaries. Invalidating a locale makes its next `preload` or
+   * `setLocale` call `loadLocale` again; the dictionary on screen stays until then.
+   * @example i18n.cache.invalidate(i18n.locale()); await i18n.setLocale(i18n.locale())
+   */
+  cache: CacheControl<L>
+  /**
+   * Refetch loaded dictionaries (all, or `locale`'s) in the background. Changed content is
+   * cached and, for the current locale, applied; unchanged content re-renders nothing.
+   * Failed refetches keep the cached dictionary (and are reported to `dev.onError`).
+   * @returns The locales whose dictionary changed.
+   */
+  revalidate: (locale?: L) => Promise<L[]>
+  /**
+   * Content hash (`hashDictionary`) of the dictionary for `l`, or of the current one (reactive);
+   * `undefined` when it has not loaded.
+   */
+  version: (l?: L) => string | undefined
+  /**
+   * Subscribe to instance events; returns the unsubscribe function.
+   * - `localeChange`: `locale()` changed (`{ locale, previous }`).
+   * - `loadStart` / `loadSuccess` / `loadError`: every `preload`/`setLocale` load, with
+   *   `cached` (cache hit) and, once settled, `duration` in ms. Revalidation is silent.
+   * - `missingKey`: `t` fell back to the key, with the current dictionary's locale.
+   *
+   * Unlike the `dev` hooks these are meant for production (analytics, logging); listener
+   * errors are rethrown asynchronously and never fail the load or translation.
+   * @example onCleanup(i18n.on("loadError", (e) => log.warn("i18n", e.locale, e.error)))
+   */
+  on: Emitter<LokatEvents<L>>["on"]
+  /** Stop background revalidation (interval timer and focus listeners). */
+  dispose: () => void
+}
+
+/**
+ * Props for `Trans`.
+ */
+export interface TransProps<L, D extends Record<string, string>> {
+  /** Instance to translate with; defaults to the one from `LokatProvider`. */
+  i18n?: SolidLokatInstance<L, D>
+  /** Translation key; its value may contain `<tag>…</tag>` markers. */
+  key: TranslationKey<D>
+  /** Components for tag markers, by tag name. */
+  components?: RichComponents
+  /** Interpolation params; accessors are tracked. */
+  params?: TranslateParams
+}
+
+/**
+ * Component form of `tRich`; reactive to its props and to the dictionary.
+ * @example
+ * <Trans key="terms" components={{ link: (p) => <a href="/terms">{p.children}</a> }} />
+ */
+export function Trans<L, D extends Record<string, string>>(props: TransProps<L, D>): JSX.Element {
+  // Context is only readable synchronously in the component body, not inside the memo.
+  const provided = lokatFromContext() as SolidLokatInstance<L, D> | undefined
+  return createMemo(() => {
+    const i18n = props.i18n ?? provided
+    if (!i18n) throw new Error("<Trans> needs an `i18n` prop or a <LokatProvider>")
+    return i18n.tRich(props.key, props.components ?? NO_COMPONENTS, props.params)
+  }) as unknown as JSX.Element
 }
 
+const NO_COMPONENTS: RichComponents = {}
+
 type Dict = Record<string, string>
 
 /**
@@ -91,7 +387,8 @@ type Dict = Record<string, string>
  * - SSR/CSR/Edge compatible: the loader is fully controlled by the consumer.
  *
  * Caching
- * - Instance-scoped `Map<L, Promise<Dict>>` ensures single-flight per locale.
+ * - Instance-scoped LRU cache of `Promise<Dict>` ensures single-flight per locale.
+ * - `cache: { maxEntries, ttl }` bounds it; `instance.cache` inspects and invalidates entries.
  * - Set `dev.disableCache` to force reloads in development workflows.
  *
  * @example CSR hydration without flash (seed with `initialDict`)
@@ -110,15 +407,20 @@ type Dict = Record<string, string>
  *
  * // In components
  * loc.t("hello") // => "Hello"
+ *
+ * // Interpolation; accessors are read at call time
+ * const [name] = createSignal("Ada")
+ * loc.t("greet", { name }) // "Hi, {name}" => "Hi, Ada"
  * ```
  *
  * @example SSR/Edge per-request instance with preloaded dict
  * ```ts
+ * import { detectLocale } from "@lokat/core"
  * import { createSolidLokat } from "@lokat/solid"
  *
  * // server-side handler
  * export async function handle(req: Request) {
- *   const locale = detectLocale(req)
+ *   const locale = detectLocale(req, { supported: ["en", "id"], defaultLocale: "en" })
  *   const dict = await loadFromKV(locale) // or fs/import/cache
  *
  *   const loc = createSolidLokat({
@@ -127,7 +429,7 @@ type Dict = Record<string, string>
  *     loadLocale: async (l) => loadFromKV(l),
  *   })
  *
- *   // render using `loc.t(...)` and serialize `dict` for hydration
+ *   // render using `loc.t(...)`; embed `loc.serialize()` for the client's `initialState`
  * }
  * ```
  *
@@ -159,103 +461,450 @@ type Dict = Record<string, string>
  * await loc.setLocale("fr") // cache hit; UI updates immediately
  * ```
  *
+ * @example Type-safe keys (dictionary type emitted by `@lokat/gen`)
+ * ```ts
+ * import type { I18nDict } from "./i18n/generated/i18n.dict"
+ *
+ * const loc = createSolidLokat<string, I18nDict>({ initialLocale: "en", loadLocale })
+ * loc.t("home.title", { name: "Ada" }) // keys and `{name}` params are checked
+ * ```
+ *
  * @typeParam L Opaque locale type (string or non-string).
+ * @typeParam D Dictionary type for typed keys; defaults to any string key.
  * @param options Adapter configuration (initial locale, optional initial dict, loader, dev hooks).
  * @returns Solid instance providing `t`, `locale()`, `setLocale`, and `preload`.
  */
-export function createSolidLokat<L = unknown>(
-  options: SolidLokatOptions<L>,
-): SolidLokatInstance<L> {
-  const [locale, setLocaleSignal] = createSignal<L>(options.initialLocale)
+export function createSolidLokat<
+  L = unknown,
+  D extends Record<string, string> = Record<string, string>,
+>(options: SolidLokatOptions<L>): SolidLokatInstance<L, D> {
+  // A persisted choice wins over `initialLocale`; the stores return nothing on the server.
+  const restored = options.persist?.read()
+  const initialLocale = restored === undefined ? options.initialLocale : restored
+  const [locale, setLocaleSignal] = createSignal<L>(initialLocale)
+  // Server snapshot: its dictionary for the initial locale stands in for `initialDict`.
+  const state = options.initialState === undefined ? undefined : parseState<L>(options.initialState)
+  const initialEntry = state?.entries.find((e) => e.locale === initialLocale)
+  const ownDict = initialLocale === options.initialLocale ? options.initialDict : undefined
+  const initialDict = ownDict ?? initialEntry?.dict
   // Maintain a plain, non-reactive reference for hot-path lookups.
-  let currentDict: Dict = options.initialDict ?? {}
+  let currentDict: Dict = initialDict ?? {}
   // Keep a Signal for reactive consumers; do not use it in hot path.
-  const [_dict, setDictSignal] = createSignal<Dict>(currentDict)
+  const [dict, setDictSignal] = createSignal<Dict>(currentDict)
+  // Instance-scoped plural rules: one `Intl.PluralRules` per language tag.
+  const pluralRules = createPluralRules()
+  // Language tag for plural rules; opaque (non-string) locales need `toLanguageTag`.
+  const tagOf = (l: L): string | undefined =>
+    options.toLanguageTag ? options.toLanguageTag(l) : typeof l === "string" ? l : undefined
+  // Locale the current dictionary was loaded for (reported with missing keys).
+  let dictLocale = initialLocale
+  // Whether a dictionary is applied (`initialDict`, hydrated or loaded).
+  let hasDict = initialDict !== undefined
+  const onMissingKey = options.onMissingKey
+  // Subscribers of `on`.
+  const events = createEmitter<LokatEvents<L>>()
+  // Translators check for misses only while someone receives them, and not before the first
+  // dictionary is applied: keys rendered meanwhile show as themselves but are not reported.
+  const reporting = () => hasDict && (onMissingKey !== undefined || events.has("missingKey"))
+  const reportMissing = (key: string) => {
+    onMissingKey?.(key, dictLocale)
+    if (events.has("missingKey")) events.emit("missingKey", { key, locale: dictLocale })
+  }
+  // Compiled ICU messages per loaded dictionary (only with `parseMessage` or `precompiled`).
+  const { parseMessage } = options
+  // Pseudo-localization (`dev.pseudo`): translators read a pseudo copy of each dictionary.
+  const pseudo = options.dev?.pseudo
+  const pseudoDicts = new WeakMap<Dict, Dict>()
+  const precompiled =
+    pseudo && options.precompiled ? pseudo.messages(options.precompiled) : options.precompiled
+  const icu = parseMessage !== undefined || precompiled !== undefined
+  const compiled = new WeakMap<Dict, ReadonlyMap<string, MessageFunction>>()
+  const intl = createIntlCache()
+  const compile = (d: Dict, l: L): Dict => {
+    if (icu && !compiled.has(d)) {
+      const tag = tagOf(l)
+      compiled.set(
+        d,
+        compileMessages(d, {
+          locale: tag,
+          pluralRules,
+          intl,
+          parseMessage,
+          precompiled: tag === undefined ? undefined : precompiled?.[tag],
+        }),
+      )
+    }
+    return d
+  }
+  /** Translator over `d` (or its pseudo copy) with the plural rules and messages of `l`. */
+  function bind(d: Dict, l: L): Translator {
+    let source = d
+    if (pseudo) {
+      source = pseudoDicts.get(d) ?? pseudo.dictionary(d)
+      pseudoDicts.set(d, source)
+    }
+    return createTranslator(compile(source, l), {
+      locale: tagOf(l),
+      pluralRules,
+      onMissingKey: reporting() ? reportMissing : undefined,
+      messages: compiled.get(source),
+      fallback: pseudo?.missing,
+    })
+  }
+  // Parameterized translator over the current dictionary; rebound on dict change
+  // so parsed templates are scoped to (and released with) their dictionary.
+  let translate = bind(currentDict, initialLocale)
+
+  // Instance-scoped cache: locale -> Promise<Dict>, bounded by `options.cache`.
+  const cache = createLruCache<L, Promise<Dict>>(options.cache, (l) => settled.delete(l))
+  // Resolved dictionaries by locale, for `serialize`.
+  const settled = new Map<L, Dict>()
+  // Dict -> its content hash, computed once on demand.
+  const hashes = new WeakMap<Dict, string>()
+
+  // Loader with optional flattening and ICU compilation applied once per load, before caching.
+  const { flatten } = options
+  const separator = typeof flatten === "object" ? flatten.separator : undefined
+  const loadLocale = (l: L): Promise<Dict> => {
+    const loaded = flatten
+      ? options.loadLocale(l).then((d) => flattenDictionary(d, separator))
+      : (options.loadLocale(l) as Promise<Dict>)
+    const p = options.manifest ? loaded.then((d) => verify(d, l)) : loaded
+    return icu ? p.then((d) => compile(d, l)) : p
+  }
+
+  /** Report `d` to `dev.onError` when it differs from `expected` (default: its manifest entry). */
+  function verify(d: Dict, l: L, expected = manifestOf(l)): Dict {
+    const err = checkDictionaryVersion(d, expected, tagOf(l) ?? String(l))
+    if (err) options.dev?.onError?.(err, l)
+    else if (expected !== undefined) hashes.set(d, expected)
+    return d
+  }
+
+  /** Manifest entry for `l`. */
+  function manifestOf(l: L): string | undefined {
+    const tag = tagOf(l)
+    return tag === undefined ? undefined : options.manifest?.[tag]
+  }
+
+  /** Content hash of `d`, memoized. */
+  function hashOf(d: Dict): string {
+    let hash = hashes.get(d)
+    if (hash === undefined) {
+      hash = hashDictionary(d)
+      hashes.set(d, hash)
+    }
+    return hash
+  }
+
+  // `<html>` element to keep in step with the locale (`syncHtml`, browser only).
+  const root = options.syncHtml
+    ? (globalThis as { document?: { documentElement: { lang: string; dir: string } } }).document
+        ?.documentElement
+    : undefined
+  if (root) syncRoot(initialLocale)
 
-  // Instance-scoped cache: locale -> Promise<Dict>
-  const cache = new Map<L, Promise<Dict>>()
+  /** Update the locale signal and, with `syncHtml`, `<html lang dir>`. */
+  function applyLocale(l: L) {
+    const previous = untrack(locale)
+    // Use updater form to satisfy Solid's `Exclude<T, Function>` constraint
+    setLocaleSignal(() => l as L)
+    if (root) syncRoot(l)
+    if (l !== previous) events.emit("localeChange", { locale: l, previous })
+  }
+
+  /** Write `lang` and `dir` of `l` to the `<html>` element. */
+  function syncRoot(l: L) {
+    const tag = tagOf(l)
+    if (root && tag !== undefined) Object.assign(root, htmlAttributes(tag))
+  }
+
+  // Switch sequence: only the most recent `load` may apply its dictionary, so a slow
+  // earlier locale can never overwrite a newer one.
+  let seq = 0
+  // The most recent switch while it is in flight; a second `load` of the same locale (e.g.
+  // `setLocale` and the suspense resource reacting to it) joins it instead of loading again.
+  let switching: { l: L; id: number; loading: Promise<Dict> } | undefined
 
   /**
-   * Internal: load dictionary for locale `l`, respecting dev cache settings.
+   * Internal: load dictionary for locale `l` (respecting dev cache settings) and apply it,
+   * unless a newer switch started meanwhile. Superseded loads resolve without applying.
    */
-  async function load(l: L): Promise<Dict> {
-    if (!options.dev?.disableCache) {
-      const cached = cache.get(l)
-      if (cached) {
-        const d = await cached
-        setDictInternal(d)
-        return d
+  function load(l: L, fetch: (l: L) => Promise<Dict> = preload): Promise<Dict> {
+    if (switching && switching.l === l && switching.id === seq) return switching.loading
+    const id = ++seq
+    const loading = fetch(l).then((d) => {
+      if (id === seq) {
+        setDictInternal(d, l)
+        if (options.deferLocale) applyLocale(l)
       }
-    }
-    const p = options.loadLocale(l)
-    if (!options.dev?.disableCache) {
-      const wrapped = p.catch((err) => {
-        cache.delete(l)
-        throw err
-      })
-      cache.set(l, wrapped)
-      const d = await wrapped
-      setDictInternal(d)
       return d
+    })
+    const current = { l, id, loading }
+    const settle = () => {
+      if (switching === current) switching = undefined
     }
-    const d = await p
-    setDictInternal(d)
-    return d
+    loading.then(settle, settle)
+    switching = current
+    return loading
   }
 
-  // Initial hydrate: avoid flash if initialDict present, else load initialLocale
-  if (!options.initialDict) {
-    // Fire and forget; caller can await setLocale for deterministic flow
-    void load(options.initialLocale)
+  // Suspense mode: the dictionary for `locale()` as a resource. A dictionary already held
+  // for that locale (e.g. `initialDict`) resolves synchronously, so hydration never suspends.
+  // The locale is wrapped because resources skip falsy sources.
+  const [dictResource] = options.suspense
+    ? createResource(
+        () => [locale()] as const,
+        ([l]) => {
+          if (hasDict && l === dictLocale) return currentDict
+          return load(l, seq === 0 ? preloadInitial : preload)
+        },
+      )
+    : []
+
+  if (state) hydrate(state)
+  // Hydration check: the client's `initialDict` against the dictionary the server rendered with.
+  if (ownDict) verify(ownDict, initialLocale, initialEntry?.version ?? manifestOf(initialLocale))
+
+  // Initial hydrate: avoid flash if initialDict present, else load initialLocale (in suspense
+  // mode, the resource already started that load)
+  if (!initialDict && !options.suspense) {
+    // Fire and forget; caller can await setLocale for deterministic flow. A failure reaches
+    // `loadError` listeners and `dev.onError` instead of rejecting unhandled.
+    load(initialLocale, preloadInitial).catch((e: unknown) =>
+      options.dev?.onError?.(e, initialLocale),
+    )
   }
 
   /** Update dictionary with identity guard and emit Signal for reactive consumers. */
-  function setDictInternal(d: Dict) {
+  function setDictInternal(d: Dict, l: L) {
     if (currentDict !== d) {
+      hasDict = true
       currentDict = d
+      dictLocale = l
+      translate = bind(d, l)
       setDictSignal(d)
     }
   }
 
   /** Translator: reads the current dictionary signal for an O(1) lookup. */
-  function t(key: string): string {
-    return currentDict[key] ?? key
+  function t(key: string, params?: TranslateParams): string {
+    // A miss goes through `translate`, which reports it when someone listens.
+    if (params === undefined) return currentDict[key] ?? translate(key)
+    return translate(key, params)
+  }
+
+  /** `on`, rebinding `translate` when `missingKey` listeners come and go. */
+  const on: SolidLokatInstance<L>["on"] = (type, listener) => {
+    const off = events.on(type, listener)
+    if (type !== "missingKey") return off
+    translate = bind(currentDict, dictLocale)
+    return () => {
+      off()
+      translate = bind(currentDict, dictLocale)
+    }
   }
 
-  /** Set a new locale; fires hooks and updates dictionary upon load. */
+  /** Delegating translator, used instead of `t` when ICU messages or pseudo mode are configured. */
+  function tDelegate(key: string, params?: TranslateParams): string {
+    return translate(key, params)
+  }
+
+  /** Suspense-mode translator: reading the resource suspends until the dictionary is ready. */
+  function tSuspense(key: string, params?: TranslateParams): string {
+    dictResource?.()
+    return translate(key, params)
+  }
+
+  /** Rich translator: tracks the dictionary signal and accessor params. */
+  function tRich(key: string, components: RichComponents, params?: TranslateParams): JSX.Element {
+    return createMemo(() => {
+      dict()
+      dictResource?.()
+      return renderRich(translate(key, params && escapeParams(params)), components)
+    }) as unknown as JSX.Element
+  }
+
+  /** Set a new locale; fires hooks and updates dictionary upon load (last call wins). */
   function set(l: L): Promise<Dict> {
-    // Use updater form to satisfy Solid's `Exclude<T, Function>` constraint
-    setLocaleSignal(() => l as L)
+    if (!options.deferLocale) applyLocale(l)
     options.dev?.onLocaleChange?.(l)
-    return load(l).catch((e) => {
-      options.dev?.onError?.(e, l)
-      throw e
-    })
+    const loading = load(l)
+    const id = seq
+    return loading.then(
+      (d) => {
+        // Save only the switch that was applied, not one superseded meanwhile.
+        if (id === seq) options.persist?.write(l)
+        return d
+      },
+      (e) => {
+        options.dev?.onError?.(e, l)
+        throw e
+      },
+    )
   }
 
   /** Preload a locale dictionary into the instance cache without changing locale. */
   function preload(l: L): Promise<Dict> {
-    if (!options.dev?.disableCache) {
-      const cached = cache.get(l)
-      if (cached) return cached
+    return trackLoad(
+      events,
+      { locale: l },
+      () => !options.dev?.disableCache && cache.has(l),
+      () => preloadCached(l),
+    )
+  }
+
+  /**
+   * Internal: `preload` for the initial load. It starts right away but is reported a microtask
+   * later, to the listeners subscribed right after creation.
+   */
+  function preloadInitial(l: L): Promise<Dict> {
+    const cached = !options.dev?.disableCache && cache.has(l)
+    const loading = preloadCached(l)
+    // Its failure reaches the caller through `loading`.
+    Promise.resolve()
+      .then(() =>
+        trackLoad(
+          events,
+          { locale: l },
+          () => cached,
+          () => loading,
+        ),
+      )
+      .catch(() => {})
+    return loading
+  }
+
+  /** Cached (single-flight) dictionary for `l`; `dev.disableCache` always reloads. */
+  function preloadCached(l: L): Promise<Dict> {
+    if (options.dev?.disableCache) {
+      return loadLocale(l).then((d) => {
+        settled.set(l, d)
+        return d
+      })
     }
-    const p = options.loadLocale(l)
-    if (!options.dev?.disableCache) {
-      const wrapped = p.catch((err) => {
-        cache.delete(l)
+    const cached = cache.get(l)
+    if (cached) return cached
+    // Entries evicted or invalidated while loading are left alone.
+    const wrapped: Promise<Dict> = loadLocale(l).then(
+      (d) => {
+        if (cache.peek(l) === wrapped) settled.set(l, d)
+        return d
+      },
+      (err) => {
+        // Avoid poisoning the cache: a failed load is retried next time.
+        if (cache.peek(l) === wrapped) cache.delete(l)
         throw err
-      })
-      cache.set(l, wrapped)
-      return wrapped
+      },
+    )
+    cache.set(l, wrapped)
+    return wrapped
+  }
+
+  /** Refetch loaded dictionaries; swap in the changed ones (on screen only if still current). */
+  async function revalidate(target?: L): Promise<L[]> {
+    const loaded = new Map(settled)
+    if (hasDict) loaded.set(dictLocale, currentDict)
+    const changed: L[] = []
+    await Promise.all(
+      [...loaded].map(async ([l, stale]) => {
+        if (target !== undefined && l !== target) return
+        let fresh: Dict
+        try {
+          fresh = await loadLocale(l)
+        } catch (e) {
+          options.dev?.onError?.(e, l)
+          return
+        }
+        if (sameDictionary(stale, fresh)) return
+        // Keep what replaced `stale` meanwhile (a newer load); `initialDict` is cached now.
+        if (settled.get(l) === stale || cache.peek(l) === undefined) {
+          cache.set(l, Promise.resolve(fresh))
+          settled.set(l, fresh)
+        }
+        if (currentDict === stale && dictLocale === l) setDictInternal(fresh, l)
+        changed.push(l)
+        options.revalidate?.onUpdate?.(l)
+      }),
+    )
+    return changed
+  }
+
+  const { interval, onFocus } = options.revalidate ?? {}
+  const dispose =
+    interval !== undefined || onFocus
+      ? watchRevalidation(options.revalidate as RevalidateOptions<never>, () => revalidate())
+      : () => {}
+  if (getOwner()) onCleanup(dispose)
+
+  /** Snapshot of the current locale and the resolved dictionaries (including `initialDict`). */
+  function serialize(): string {
+    const dicts = new Map(settled)
+    if (hasDict) dicts.set(dictLocale, currentDict)
+    const entries = [...dicts].map(([l, dict]) => ({ locale: l, dict, version: hashOf(dict) }))
+    return serializeState({ locale: locale(), entries })
+  }
+
+  /** Seed the cache from a snapshot; applies the current locale's entry if nothing is applied. */
+  function hydrate(input: LokatState<L> | string): void {
+    for (const { locale: l, dict: d } of parseState(input).entries) {
+      // Supersede the in-flight initial load: the snapshot already has its result.
+      const supersede = !hasDict && l === locale()
+      // Entries already cached are kept (and stay what `serialize`/`version` report).
+      if (cache.has(l) && !supersede) continue
+      if (options.manifest) verify(d, l)
+      settled.set(l, d)
+      cache.set(l, Promise.resolve(compile(d, l)))
+      if (supersede) {
+        seq++
+        setDictInternal(compile(d, l), l)
+      }
+    }
+  }
+
+  /** Hash of the dictionary for `l`; the current one (tracked) when `l` is omitted. */
+  function version(l?: L): string | undefined {
+    if (l === undefined) {
+      const d = dict()
+      return hasDict ? hashOf(d) : undefined
     }
-    return p
+    const d = hasDict && l === dictLocale ? currentDict : settled.get(l)
+    return d && hashOf(d)
+  }
+
+  const translator = options.suspense ? tSuspense : icu || pseudo ? tDelegate : t
+
+  /** Tracked translator: subscribes to the dictionary signal before translating. */
+  function tr(key: string, params?: TranslateParams): string {
+    dict()
+    return translator(key, params)
   }
 
   return {
-    t,
+    t: translator,
+    tr,
     locale,
+    format: createFormatters(() => tagOf(locale())),
+    direction: () => textDirection(tagOf(locale())),
+    htmlAttributes: () => {
+      const tag = tagOf(locale())
+      return { lang: tag ?? "", dir: textDirection(tag) }
+    },
     setLocale: set,
     preload,
     dictRef: () => currentDict,
+    tRich,
+    serialize,
+    hydrate,
+    revalidate,
+    version,
+    on,
+    dispose,
+    cache: {
+      has: (l) => cache.has(l),
+      invalidate: (l) => cache.delete(l),
+      clear: () => cache.clear(),
+      entries: () => cache.entries().map(({ key, createdAt }) => ({ locale: key, createdAt })),
+    },
   }
 }
@@ -0,0 +1,109 @@
+/**
+ * Rich-text rendering for translated strings: `<tag>…</tag>` and `<tag/>` markers
+ * are mapped to Solid components. Text is only ever rendered as text nodes.
+ */
+import { createComponent, type JSX } from "solid-js"
+
+/**
+ * Components for tag markers, by tag name. Each receives the tag's content as `children`.
+ * @example { link: (p) => <a href="/terms">{p.children}</a>, b: (p) => <strong>{p.children}</strong> }
+ */
+export type RichComponents = Readonly<
+  Record<string, (props: { children?: JSX.Element }) => JSX.Element>
+>
+
+interface TagNode {
+  name: string
+  children: RichNode[]
+}
+
+type RichNode = string | TagNode
+
+// `<name>`, `</name>` or `<name/>`; names like `link`, `b`, `0` (react-i18next style).
+const TAG = /<(\/?)([\w-]+)\s*(\/?)>/g
+
+// Stand-in for `<` inside param values, so interpolated text can never open a tag.
+const LT = "\uE000"
+
+/**
+ * Internal: parse tag markers into a tree. Unknown structure degrades to text:
+ * stray closing tags and unclosed opening tags are kept verbatim.
+ */
+function parse(text: string): RichNode[] {
+  const root: TagNode = { name: "", children: [] }
+  const stack: Array<TagNode & { raw: string }> = []
+  const top = () => stack[stack.length - 1] ?? root
+  let last = 0
+
+  for (const m of text.matchAll(TAG)) {
+    const [raw, closing, name = "", selfClosing] = m
+    if (m.index > last) top().children.push(text.slice(last, m.index))
+    last = m.index + raw.length
+
+    if (selfClosing) {
+      top().children.push({ name, children: [] })
+    } else if (!closing) {
+      stack.push({ name, children: [], raw })
+    } else if (stack.some((n) => n.name === name)) {
+      // Close up to the matching tag; anything opened inside it without a close is text.
+      for (;;) {
+        const node = stack.pop() as TagNode & { raw: string }
+        if (node.name === name) {
+          top().children.push({ name, children: node.children })
+          break
+        }
+        top().children.push(node.raw, ...node.children)
+      }
+    } else {
+      top().children.push(raw)
+    }
+  }
+  if (last < text.length) top().children.push(text.slice(last))
+  while (stack.length) {
+    const node = stack.pop() as TagNode & { raw: string }
+    top().children.push(node.raw, ...node.children)
+  }
+  return root.children
+}
+
+/**
+ * Internal: render parsed nodes. Tags without a component keep their content only.
+ */
+function render(nodes: RichNode[], components: RichComponents): JSX.Element {
+  const out: JSX.Element[] = []
+  for (const node of nodes) {
+    if (typeof node === "string") {
+      out.push(node.includes(LT) ? node.replaceAll(LT, "<") : node)
+      continue
+    }
+    const children = render(node.children, components)
+    const component = Object.hasOwn(components, node.name) ? components[node.name] : undefined
+    if (!component) out.push(children)
+    else if (node.children.length === 0) out.push(createComponent(component, {}))
+    else out.push(createComponent(component, { children }))
+  }
+  return out.length === 1 ? out[0] : out
+}
+
+/**
+ * Internal: shield string param values from tag parsing (`<` → private-use stand-in).
+ */
+export function escapeParams<P extends Record<string, unknown>>(params: P): P {
+  let out: Record<string, unknown> | undefined
+  for (const name of Object.keys(params)) {
+    const value = params[name]
+    const resolved = typeof value === "function" ? value() : value
+    if (typeof resolved === "string" && resolved.includes("<")) {
+      out ??= { ...params }
+      out[name] = resolved.replaceAll("<", LT)
+    }
+  }
+  return (out ?? params) as P
+}
+
+/**
+ * Internal: translated text with tag markers → Solid elements.
+ */
+export function renderRich(text: string, components: RichComponents): JSX.Element {
+  return render(parse(text), components)
+}
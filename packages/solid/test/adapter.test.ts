@@ -1,4 +1,5 @@
 import { describe, expect, it } from "bun:test"
+import { createMissingKeyCollector, parseMessage } from "@lokat/core"
 import { createSolidLokat } from "../src/index"
 
 type Dict = Record<string, string>
@@ -114,4 +115,151 @@ describe("@lokat/solid createSolidLokat", () => {
     await i18n.setLocale(en)
     expect(i18n.t("loc")).toBe("en-US")
   })
+
+  it("interpolates params, reading accessors at call time", async () => {
+    let count = 1
+    const i18n = createSolidLokat({
+      initialLocale: "en",
+      initialDict: { items: "{count} items for {name}" },
+      loadLocale: async () => ({ items: "{name}: {count}" }),
+    })
+
+    const params = { name: "Ada", count: () => count }
+    expect(i18n.t("items", params)).toBe("1 items for Ada")
+    count = 2
+    expect(i18n.t("items", params)).toBe("2 items for Ada")
+    expect(i18n.t("items")).toBe("{count} items for {name}")
+
+    await i18n.setLocale("id")
+    expect(i18n.t("items", params)).toBe("Ada: 2")
+  })
+
+  it("selects plural variants with rules for the active locale", async () => {
+    const i18n = createSolidLokat<{ tag: string }>({
+      initialLocale: { tag: "en" },
+      initialDict: { n_one: "{count} file", n_other: "{count} files" },
+      toLanguageTag: (l) => l.tag,
+      loadLocale: async () => ({
+        n_one: "{count} plik",
+        n_few: "{count} pliki",
+        n_many: "{count} plików",
+      }),
+    })
+
+    expect(i18n.t("n", { count: 1 })).toBe("1 file")
+    expect(i18n.t("n", { count: 3 })).toBe("3 files")
+
+    await i18n.setLocale({ tag: "pl" })
+    expect(i18n.t("n", { count: 3 })).toBe("3 pliki")
+    expect(i18n.t("n", { count: 5 })).toBe("5 plików")
+  })
+
+  it("reports missing keys with the dictionary locale when configured", async () => {
+    const missing = createMissingKeyCollector<string>()
+    const i18n = createSolidLokat({
+      initialLocale: "en",
+      initialDict: { a: "A" },
+      onMissingKey: missing.onMissingKey,
+      loadLocale: async () => ({ b: "B" }),
+    })
+
+    expect(i18n.t("a")).toBe("A")
+    expect(i18n.t("b")).toBe("b")
+    await i18n.setLocale("id")
+    expect(i18n.t("a", { x: 1 })).toBe("a")
+    expect(i18n.t("b")).toBe("B")
+    expect(missing.toJSON()).toEqual({ en: ["b"], id: ["a"] })
+  })
+
+  it("does not report keys rendered before the initial dictionary arrives", async () => {
+    const missing = createMissingKeyCollector<string>()
+    let resolve: (d: Dict) => void = () => {}
+    const i18n = createSolidLokat({
+      initialLocale: "en",
+      onMissingKey: missing.onMissingKey,
+      loadLocale: () =>
+        new Promise<Dict>((r) => {
+          resolve = r
+        }),
+    })
+
+    expect(i18n.t("hello")).toBe("hello")
+    expect(i18n.t("hello", { name: "Ada" })).toBe("hello")
+    resolve({ hello: "Hello" })
+    await i18n.preload("en")
+    expect(i18n.t("hello")).toBe("Hello")
+    expect(i18n.t("nope")).toBe("nope")
+    expect(missing.toJSON()).toEqual({ en: ["nope"] })
+  })
+
+  it("flattens nested loader results when configured", async () => {
+    const i18n = createSolidLokat({
+      initialLocale: "en",
+      initialDict: {},
+      flatten: true,
+      loadLocale: async () => ({ home: { title: "Welcome", cta: { go: "Go {name}" } } }),
+    })
+
+    await i18n.setLocale("en")
+    expect(i18n.t("home.title")).toBe("Welcome")
+    expect(i18n.t("home.cta.go", { name: "Ada" })).toBe("Go Ada")
+
+    const collide = createSolidLokat({
+      initialLocale: "en",
+      initialDict: {},
+      flatten: { separator: "/" },
+      loadLocale: async () => ({ "a/b": "x", a: { b: "y" } }),
+    })
+    await expect(collide.preload("en")).rejects.toThrow('"a/b"')
+  })
+
+  it("formats for the current locale and follows setLocale", async () => {
+    const i18n = createSolidLokat({
+      initialLocale: { tag: "en-US" },
+      initialDict: {},
+      toLanguageTag: (l) => l.tag,
+      loadLocale: async () => ({}),
+    })
+
+    expect(i18n.format.number(1234.5)).toBe("1,234.5")
+    expect(i18n.format.currency(2, "USD")).toBe("$2.00")
+    await i18n.setLocale({ tag: "de-DE" })
+    expect(i18n.format.number(1234.5)).toBe("1.234,5")
+  })
+
+  it("compiles ICU messages once per load", async () => {
+    const i18n = createSolidLokat({
+      initialLocale: "en",
+      initialDict: { inbox: "{n, plural, =0 {Empty} one {# message} other {# messages}}" },
+      parseMessage,
+      loadLocale: async () => ({
+        inbox: "{g, select, female {Sie hat} other {Du hast}} {n} Nachrichten",
+      }),
+    })
+
+    let count = 0
+    const n = () => count
+    expect(i18n.t("inbox", { n })).toBe("Empty")
+    count = 1
+    expect(i18n.t("inbox", { n })).toBe("1 message")
+
+    await i18n.setLocale("de")
+    expect(i18n.t("inbox", { g: "female", n: 3 })).toBe("Sie hat 3 Nachrichten")
+  })
+
+  // Tracking itself is covered in reactive.browser.ts (the server build never re-runs).
+  it("tr translates like t with the current dictionary", async () => {
+    const i18n = createSolidLokat({
+      initialLocale: "en",
+      initialDict: { hi: "Hi {name}", ok: "OK" },
+      loadLocale: async () => ({ hi: "Halo {name}", ok: "Oke" }),
+    })
+
+    expect(i18n.tr("ok")).toBe(i18n.t("ok"))
+    expect(i18n.tr("hi", { name: "Ada" })).toBe("Hi Ada")
+    await i18n.setLocale("id")
+    expect(i18n.tr("ok")).toBe("Oke")
+    expect(i18n.tr("hi", { name: "Ada" })).toBe("Halo Ada")
+    expect(i18n.tr("missing")).toBe("missing")
+  })
 })
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "bun:test"
+import { createSolidLokat } from "../src/index"
+
+function setup(maxEntries?: number) {
+  const loaded: string[] = []
+  const i18n = createSolidLokat({
+    initialLocale: "en",
+    initialDict: { hi: "Hi" },
+    ...(maxEntries ? { cache: { maxEntries } } : {}),
+    loadLocale: async (l: string) => {
+      loaded.push(l)
+      return { hi: `hi-${l}-${loaded.length}` }
+    },
+  })
+  return { i18n, loaded }
+}
+
+describe("@lokat/solid cache", () => {
+  it("keeps at most maxEntries locales, least recently used evicted first", async () => {
+    const { i18n, loaded } = setup(2)
+    await i18n.preload("id")
+    await i18n.preload("fr")
+    await i18n.preload("id")
+    await i18n.preload("de") // evicts fr
+    expect(i18n.cache.entries().map((e) => e.locale)).toEqual(["id", "de"])
+    await i18n.preload("fr")
+    expect(loaded).toEqual(["id", "fr", "de", "fr"])
+  })
+
+  it("reloads an invalidated locale on the next switch", async () => {
+    const { i18n, loaded } = setup()
+    await i18n.setLocale("id")
+    expect(i18n.cache.has("id")).toBe(true)
+    expect(i18n.cache.invalidate("id")).toBe(true)
+    expect(i18n.cache.has("id")).toBe(false)
+    expect(i18n.t("hi")).toBe("hi-id-1") // the dictionary on screen is kept
+
+    await i18n.setLocale("id")
+    expect(i18n.t("hi")).toBe("hi-id-2")
+    i18n.cache.clear()
+    expect(i18n.cache.entries()).toEqual([])
+    expect(loaded).toEqual(["id", "id"])
+  })
+})
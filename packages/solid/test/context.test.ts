@@ -0,0 +1,56 @@
+import { describe, expect, it } from "bun:test"
+import { createComponent, createRoot } from "solid-js"
+import { createSolidLokat, LokatProvider, Trans, useLokat } from "../src/index"
+
+function instance(hello: string) {
+  return createSolidLokat({
+    initialLocale: "en",
+    initialDict: { hello, terms: "<b>terms</b>" },
+    loadLocale: async () => ({}),
+  })
+}
+
+// Flatten rendered output (accessors, arrays, strings) into a string for assertions.
+function text(el: unknown): string {
+  if (typeof el === "function") return text(el())
+  if (Array.isArray(el)) return el.map(text).join("")
+  return el == null ? "" : String(el)
+}
+
+describe("@lokat/solid context", () => {
+  it("provides a per-tree instance to useLokat()", () => {
+    const render = (i18n: ReturnType<typeof instance>) =>
+      createRoot(() =>
+        text(
+          createComponent(LokatProvider, {
+            value: i18n,
+            get children() {
+              return useLokat().t("hello")
+            },
+          }),
+        ),
+      )
+
+    // Two "requests" rendered with their own instances never see each other's.
+    expect(render(instance("Hello"))).toBe("Hello")
+    expect(render(instance("Halo"))).toBe("Halo")
+  })
+
+  it("lets <Trans> fall back to the provided instance", () => {
+    const out = createRoot(() =>
+      text(
+        createComponent(LokatProvider, {
+          value: instance("Hello"),
+          get children() {
+            return createComponent(Trans, { key: "terms", components: { b: (p) => p.children } })
+          },
+        }),
+      ),
+    )
+    expect(out).toBe("terms")
+  })
+
+  it("throws a clear error outside a provider", () => {
+    expect(() => createRoot(() => useLokat())).toThrow("inside <LokatProvider")
+  })
+})
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it } from "bun:test"
+import { createSolidLokat } from "../src/index"
+
+const g = globalThis as Record<string, unknown>
+
+afterEach(() => {
+  delete g.document
+})
+
+describe("@lokat/solid text direction", () => {
+  it("follows the locale and reports SSR attributes", async () => {
+    const i18n = createSolidLokat({
+      initialLocale: "en",
+      initialDict: {},
+      loadLocale: async () => ({}),
+    })
+    expect(i18n.direction()).toBe("ltr")
+    await i18n.setLocale("ar-EG")
+    expect(i18n.direction()).toBe("rtl")
+    expect(i18n.htmlAttributes()).toEqual({ lang: "ar-EG", dir: "rtl" })
+  })
+
+  it("syncs <html lang dir> with syncHtml, together with the dictionary when deferred", async () => {
+    const root = { lang: "", dir: "" }
+    g.document = { documentElement: root }
+    let resolve: (d: Record<string, string>) => void = () => {}
+    const i18n = createSolidLokat({
+      initialLocale: "en",
+      initialDict: {},
+      syncHtml: true,
+      deferLocale: true,
+      loadLocale: () =>
+        new Promise((r) => {
+          resolve = r
+        }),
+    })
+    expect(root).toEqual({ lang: "en", dir: "ltr" })
+
+    const he = i18n.setLocale("he")
+    expect(root).toEqual({ lang: "en", dir: "ltr" })
+    resolve({})
+    await he
+    expect(root).toEqual({ lang: "he", dir: "rtl" })
+  })
+
+  it("does not touch the document without syncHtml or a language tag", async () => {
+    const root = { lang: "x", dir: "x" }
+    g.document = { documentElement: root }
+    const opaque = { id: 1 }
+    const i18n = createSolidLokat({
+      initialLocale: opaque,
+      syncHtml: true,
+      loadLocale: async () => ({}),
+    })
+    expect(i18n.htmlAttributes()).toEqual({ lang: "", dir: "ltr" })
+    await createSolidLokat({ initialLocale: "ar", loadLocale: async () => ({}) }).setLocale("he")
+    expect(root).toEqual({ lang: "x", dir: "x" })
+  })
+})
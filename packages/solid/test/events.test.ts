@@ -0,0 +1,92 @@
+import { describe, expect, it } from "bun:test"
+import type { LokatEvents } from "@lokat/core"
+import { createSolidLokat } from "../src/index"
+
+type Dict = Record<string, string>
+
+const DICTS: Record<string, Dict> = { en: { hi: "Hi" }, id: { hi: "Halo" } }
+
+async function loadLocale(l: string): Promise<Dict> {
+  const d = DICTS[l]
+  if (!d) throw new Error(`no ${l}`)
+  return d
+}
+
+describe("@lokat/solid events", () => {
+  it("reports locale changes and loads with cache hits", async () => {
+    const i18n = createSolidLokat({ initialLocale: "en", initialDict: DICTS.en, loadLocale })
+    const seen: unknown[] = []
+    i18n.on("localeChange", (e) => seen.push(["change", e]))
+    i18n.on("loadStart", (e) => seen.push(["start", e]))
+    i18n.on("loadSuccess", (e) => {
+      expect(e.duration).toBeGreaterThanOrEqual(0)
+      seen.push(["success", e.locale, e.cached])
+    })
+    await i18n.setLocale("id")
+    await i18n.setLocale("id")
+    expect(seen).toEqual([
+      ["change", { locale: "id", previous: "en" }],
+      ["start", { locale: "id", cached: false }],
+      ["success", "id", false],
+      ["start", { locale: "id", cached: true }],
+      ["success", "id", true],
+    ])
+  })
+
+  it("reports failed loads with the error", async () => {
+    const i18n = createSolidLokat({ initialLocale: "en", initialDict: DICTS.en, loadLocale })
+    const errors: LokatEvents["loadError"][] = []
+    i18n.on("loadError", (e) => errors.push(e))
+    await expect(i18n.preload("fr")).rejects.toThrow("no fr")
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toMatchObject({ locale: "fr", cached: false })
+  })
+
+  it("emits missing keys from the fast path until unsubscribed", async () => {
+    const i18n = createSolidLokat({ initialLocale: "en", initialDict: DICTS.en, loadLocale })
+    const missing: LokatEvents["missingKey"][] = []
+    const off = i18n.on("missingKey", (e) => missing.push(e))
+    expect(i18n.t("hi")).toBe("Hi")
+    expect(i18n.t("nope")).toBe("nope")
+    await i18n.setLocale("id")
+    i18n.t("nope", { x: 1 })
+    off()
+    i18n.t("gone")
+    expect(missing).toEqual([
+      { key: "nope", locale: "en" },
+      { key: "nope", locale: "id" },
+    ])
+  })
+
+  it("starts checking for missing keys when a listener subscribes", () => {
+    const i18n = createSolidLokat({ initialLocale: "en", initialDict: DICTS.en, loadLocale })
+    const missing: string[] = []
+    i18n.t("before", { x: 1 })
+    const off = i18n.on("missingKey", (e) => missing.push(e.key))
+    i18n.t("during", { x: 1 })
+    off()
+    i18n.t("after", { x: 1 })
+    expect(missing).toEqual(["during"])
+  })
+
+  it("reports the initial load to listeners added after creation", async () => {
+    const errors: unknown[] = []
+    const failing = createSolidLokat({
+      initialLocale: "fr",
+      loadLocale,
+      dev: { onError: (e, l) => errors.push([l, (e as Error).message]) },
+    })
+    const seen: unknown[] = []
+    failing.on("loadStart", (e) => seen.push(["start", e]))
+    failing.on("loadError", (e) => seen.push(["error", e.locale, (e.error as Error).message]))
+    const loaded = createSolidLokat({ initialLocale: "en", loadLocale })
+    loaded.on("loadSuccess", (e) => seen.push(["success", e.locale, e.cached]))
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(errors).toEqual([["fr", "no fr"]])
+    expect(seen).toEqual([
+      ["start", { locale: "fr", cached: false }],
+      ["error", "fr", "no fr"],
+      ["success", "en", false],
+    ])
+  })
+})
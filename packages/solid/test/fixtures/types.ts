@@ -0,0 +1,36 @@
+// Type-level checks, compiled by `types.test.ts`: every `@ts-expect-error` must be an error,
+// and every other line must compile.
+import { createSolidLokat, Trans } from "../../src/index"
+
+type Dict = {
+  readonly "home.title": "Welcome"
+  readonly "home.greeting": "Hello, {name}!"
+  readonly "cart.items_one": "{count} item"
+  readonly "cart.items_other": "{count} items"
+}
+
+const i18n = createSolidLokat<string, Dict>({
+  initialLocale: "en",
+  loadLocale: async () => ({}),
+})
+
+i18n.t("home.title")
+i18n.t("home.greeting", { name: "Ada" })
+i18n.tr("cart.items", { count: 2 })
+i18n.tRich("home.greeting", {})
+Trans({ i18n, key: "cart.items" })
+
+// @ts-expect-error unknown key
+i18n.t("hoem.title")
+// @ts-expect-error unknown param
+i18n.tr("home.greeting", { nmae: "Ada" })
+// @ts-expect-error plural base keys need `count`
+i18n.t("cart.items")
+// @ts-expect-error unknown key
+i18n.tRich("nope", {})
+// @ts-expect-error unknown key
+Trans({ i18n, key: "nope" })
+
+// Untyped instances accept any key.
+const loose = createSolidLokat({ initialLocale: "en", loadLocale: async () => ({}) })
+loose.t("anything", { x: 1 })
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "bun:test"
+import type { LocaleStore } from "@lokat/core"
+import { createSolidLokat } from "../src/index"
+
+type Dict = Record<string, string>
+
+// In-memory store recording writes.
+function memoryStore(saved?: string) {
+  const writes: string[] = []
+  const store: LocaleStore<string> = {
+    read: () => saved,
+    write: (l) => {
+      saved = l
+      writes.push(l)
+    },
+  }
+  return { store, writes }
+}
+
+describe("@lokat/solid locale persistence", () => {
+  it("restores the saved locale instead of initialLocale and its initialDict", async () => {
+    const loaded: string[] = []
+    const { store } = memoryStore("id")
+    const i18n = createSolidLokat({
+      initialLocale: "en",
+      initialDict: { hi: "Hi" },
+      persist: store,
+      loadLocale: async (l: string): Promise<Dict> => {
+        loaded.push(l)
+        return { hi: "Halo" }
+      },
+    })
+
+    expect(i18n.locale()).toBe("id")
+    await i18n.preload("id")
+    expect(i18n.t("hi")).toBe("Halo")
+    expect(loaded).toEqual(["id"])
+  })
+
+  it("saves applied switches only", async () => {
+    const { store, writes } = memoryStore()
+    const pending = new Map<string, (d: Dict) => void>()
+    const i18n = createSolidLokat({
+      initialLocale: "en",
+      initialDict: { hi: "Hi" },
+      persist: store,
+      loadLocale: (l: string) =>
+        l === "xx"
+          ? Promise.reject(new Error("404"))
+          : new Promise<Dict>((resolve) => pending.set(l, resolve)),
+    })
+
+    expect(writes).toEqual([])
+    const fr = i18n.setLocale("fr")
+    const de = i18n.setLocale("de")
+    pending.get("de")?.({ hi: "Hallo" })
+    pending.get("fr")?.({ hi: "Salut" })
+    await Promise.all([fr, de])
+    await expect(i18n.setLocale("xx")).rejects.toThrow("404")
+    expect(writes).toEqual(["de"])
+  })
+})
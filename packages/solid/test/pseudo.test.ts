@@ -0,0 +1,55 @@
+import { describe, expect, it } from "bun:test"
+import { createPseudoLocalizer, parseMessage } from "@lokat/core"
+import type { JSX } from "solid-js"
+import { createSolidLokat, type RichComponents } from "../src/index"
+
+type Dict = Record<string, string>
+
+// Flatten rendered output (accessors, arrays, strings) into a string for assertions.
+function text(el: unknown): string {
+  if (typeof el === "function") return text(el())
+  if (Array.isArray(el)) return el.map(text).join("")
+  return el == null ? "" : String(el)
+}
+
+const components: RichComponents = {
+  b: (p) => ["[b]", p.children, "[/b]"] as JSX.Element,
+}
+
+describe("@lokat/solid pseudo-localization (dev.pseudo)", () => {
+  it("pseudo-localizes translations and marks missing keys", async () => {
+    const EN: Dict = { hello: "Hello, {name}!", bold: "Be <b>bold</b>" }
+    const i18n = createSolidLokat({
+      initialLocale: "en",
+      initialDict: EN,
+      loadLocale: async (): Promise<Dict> => ({ hello: "Hola, {name}!" }),
+      dev: { pseudo: createPseudoLocalizer() },
+    })
+    expect(i18n.t("hello", { name: "Ada" })).toBe("[Ĥéļļö, Ada!~~~]")
+    expect(i18n.tr("missing.key")).toBe("[!! missing.key !!]")
+    expect(text(i18n.tRich("bold", components))).toBe("[Ɓé [b]ƀöļð[/b]~~~]")
+    expect(i18n.dictRef()).toBe(EN)
+
+    await i18n.setLocale("es")
+    expect(i18n.t("hello", { name: "Ada" })).toBe("[Ĥöļå, Ada!~~~]")
+    expect(i18n.serialize()).toContain("Hola, {name}!")
+  })
+
+  it("applies options and keeps ICU messages working", () => {
+    const i18n = createSolidLokat({
+      initialLocale: "en",
+      initialDict: { inbox: "{n, plural, one {# message} other {# messages}}" },
+      loadLocale: async () => ({}),
+      parseMessage,
+      dev: {
+        pseudo: createPseudoLocalizer({
+          expansion: 0,
+          brackets: ["<", ">"],
+          missing: (key) => `?${key}?`,
+        }),
+      },
+    })
+    expect(i18n.t("inbox", { n: 2 })).toBe("<2 ɱéššåĝéš>")
+    expect(i18n.t("nope")).toBe("?nope?")
+  })
+})
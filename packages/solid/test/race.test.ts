@@ -0,0 +1,76 @@
+import { describe, expect, it } from "bun:test"
+import { createSolidLokat } from "../src/index"
+
+type Dict = Record<string, string>
+
+// Loader whose per-locale promises are resolved manually, in any order.
+function deferredLoader() {
+  const pending = new Map<string, (d: Dict) => void>()
+  const loadLocale = (l: string) =>
+    new Promise<Dict>((resolve) => {
+      pending.set(l, resolve)
+    })
+  const resolve = (l: string) => pending.get(l)?.({ hi: `hi-${l}` })
+  return { loadLocale, resolve }
+}
+
+describe("@lokat/solid setLocale races", () => {
+  it("keeps the last requested locale when an earlier load resolves later", async () => {
+    const { loadLocale, resolve } = deferredLoader()
+    const i18n = createSolidLokat({ initialLocale: "en", initialDict: { hi: "hi-en" }, loadLocale })
+
+    const fr = i18n.setLocale("fr")
+    const de = i18n.setLocale("de")
+    resolve("de")
+    await de
+    resolve("fr")
+    expect((await fr).hi).toBe("hi-fr") // the superseded call still resolves
+
+    expect(i18n.locale()).toBe("de")
+    expect(i18n.t("hi")).toBe("hi-de")
+    expect(i18n.dictRef().hi).toBe("hi-de")
+  })
+
+  it("does not let the initial load overwrite an explicit switch", async () => {
+    const { loadLocale, resolve } = deferredLoader()
+    const i18n = createSolidLokat({ initialLocale: "en", loadLocale })
+
+    const id = i18n.setLocale("id")
+    resolve("id")
+    await id
+    resolve("en")
+    await i18n.preload("en")
+    expect(i18n.t("hi")).toBe("hi-id")
+  })
+
+  it("deferLocale keeps locale() in step with the dictionary", async () => {
+    const { loadLocale, resolve } = deferredLoader()
+    const i18n = createSolidLokat({
+      initialLocale: "en",
+      initialDict: { hi: "hi-en" },
+      deferLocale: true,
+      loadLocale,
+    })
+
+    const fr = i18n.setLocale("fr")
+    expect(i18n.locale()).toBe("en")
+    resolve("fr")
+    await fr
+    expect(i18n.locale()).toBe("fr")
+    expect(i18n.t("hi")).toBe("hi-fr")
+  })
+
+  it("deferLocale leaves locale() untouched when the load fails", async () => {
+    const i18n = createSolidLokat({
+      initialLocale: "en",
+      initialDict: { hi: "hi-en" },
+      deferLocale: true,
+      loadLocale: async () => {
+        throw new Error("offline")
+      },
+    })
+    await expect(i18n.setLocale("fr")).rejects.toThrow("offline")
+    expect(i18n.locale()).toBe("en")
+    expect(i18n.t("hi")).toBe("hi-en")
+  })
+})
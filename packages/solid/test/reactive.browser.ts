@@ -0,0 +1,137 @@
+// Reactive behavior under Solid's browser build, where computations re-run on signal changes
+// (plain `bun test` resolves the server build, which runs them once). Not matched by the
+// default test pattern; `bun run test` runs it with `--conditions=browser`.
+import { describe, expect, it } from "bun:test"
+import {
+  createComponent,
+  createRenderEffect,
+  createRoot,
+  type JSX,
+  Suspense,
+  useTransition,
+} from "solid-js"
+import {
+  createSolidLokat,
+  type RichComponents,
+  type SolidLokatInstance,
+  type SolidLokatOptions,
+  Trans,
+} from "../src/index"
+
+type Dict = Record<string, string>
+
+const DICTS: Record<string, Dict> = { en: { hi: "Hello" }, id: { hi: "Halo" } }
+
+// Loader whose results are released by hand, recording each call.
+function gatedLoader(calls: string[]) {
+  const gates: Array<() => void> = []
+  const loadLocale = (l: string) => {
+    calls.push(l)
+    return new Promise<Dict>((resolve) => {
+      gates.push(() => resolve(DICTS[l] as Dict))
+    })
+  }
+  const release = () => {
+    for (const open of gates.splice(0)) open()
+  }
+  return { loadLocale, release }
+}
+
+const tick = () => new Promise((r) => setTimeout(r, 0))
+
+// Flatten rendered output (accessors, arrays, strings) into a string; reads are tracked.
+function text(el: unknown): string {
+  if (typeof el === "function") return text(el())
+  if (Array.isArray(el)) return el.map(text).join("")
+  return el == null ? "" : String(el)
+}
+
+const components: RichComponents = {
+  link: (p) => ["[a]", p.children, "[/a]"] as JSX.Element,
+}
+
+describe("@lokat/solid reactivity (browser build)", () => {
+  it("re-runs computations reading tr after setLocale, but not those reading t", async () => {
+    const i18n = createSolidLokat({
+      initialLocale: "en",
+      initialDict: { ok: "OK" },
+      loadLocale: async (): Promise<Dict> => ({ ok: "Oke" }),
+    })
+    const tracked: string[] = []
+    const untracked: string[] = []
+    const dispose = createRoot((dispose) => {
+      createRenderEffect(() => tracked.push(i18n.tr("ok")))
+      createRenderEffect(() => untracked.push(i18n.t("ok")))
+      return dispose
+    })
+
+    await i18n.setLocale("id")
+    expect(tracked).toEqual(["OK", "Oke"])
+    expect(untracked).toEqual(["OK"])
+    dispose()
+  })
+
+  it("re-renders mounted <Trans> and tRich output after setLocale", async () => {
+    const i18n = createSolidLokat({
+      initialLocale: "en",
+      initialDict: { terms: "Read our <link>terms</link>" },
+      loadLocale: async (): Promise<Dict> => ({ terms: "Lies unsere <link>AGB</link>" }),
+    })
+    const trans: string[] = []
+    const rich: string[] = []
+    const dispose = createRoot((dispose) => {
+      // Created once, like a mounted component; only its reactive output may change.
+      const el = Trans({ i18n, key: "terms", components })
+      const helper = i18n.tRich("terms", components)
+      createRenderEffect(() => trans.push(text(el)))
+      createRenderEffect(() => rich.push(text(helper)))
+      return dispose
+    })
+
+    await i18n.setLocale("de")
+    expect(trans).toEqual(["Read our [a]terms[/a]", "Lies unsere [a]AGB[/a]"])
+    expect(rich).toEqual(["Read our [a]terms[/a]", "Lies unsere [a]AGB[/a]"])
+    dispose()
+  })
+
+  it("keeps the current locale on screen while a transition loads the next", async () => {
+    const calls: string[] = []
+    const { loadLocale, release } = gatedLoader(calls)
+    const seen: string[] = []
+    let i18n!: SolidLokatInstance<string>
+    let start!: (fn: () => void) => Promise<void>
+    const dispose = createRoot((dispose) => {
+      const options: SolidLokatOptions<string> = {
+        initialLocale: "en",
+        initialDict: DICTS.en,
+        suspense: true,
+        loadLocale,
+      }
+      i18n = createSolidLokat(options)
+      const [pending, startTransition] = useTransition()
+      start = startTransition
+      createComponent(Suspense, {
+        fallback: "loading",
+        get children() {
+          createRenderEffect(() => seen.push(`${i18n.locale()}:${i18n.tr("hi")}:${pending()}`))
+          return null
+        },
+      })
+      return dispose
+    })
+
+    const done = start(() => {
+      void i18n.setLocale("id")
+    })
+    await tick()
+    // Still English while "id" loads; never the bare key.
+    expect(seen.at(-1)).toBe("en:Hello:true")
+    release()
+    await done
+    await tick()
+    expect(seen.at(-1)).toBe("id:Halo:false")
+    expect(seen.some((s) => s.includes(":hi:"))).toBe(false)
+    expect(calls).toEqual(["id"])
+    dispose()
+  })
+})
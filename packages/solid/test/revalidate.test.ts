@@ -0,0 +1,50 @@
+import { describe, expect, it } from "bun:test"
+import { createSolidLokat } from "../src/index"
+
+type Dict = Record<string, string>
+
+describe("@lokat/solid revalidation", () => {
+  it("swaps in changed dictionaries only", async () => {
+    const remote: Record<string, Dict> = { en: { hi: "Hi" }, id: { hi: "Halo" } }
+    const updated: string[] = []
+    const i18n = createSolidLokat({
+      initialLocale: "en",
+      initialDict: { hi: "Hi" },
+      loadLocale: async (l: string) => ({ ...remote[l] }),
+      revalidate: { onUpdate: (l) => updated.push(l) },
+    })
+    await i18n.preload("id")
+    const onScreen = i18n.dictRef()
+
+    expect(await i18n.revalidate()).toEqual([])
+    expect(i18n.dictRef()).toBe(onScreen) // same content: no swap, no re-render
+
+    remote.en = { hi: "Hello" }
+    remote.id = { hi: "Hai" }
+    expect((await i18n.revalidate()).sort()).toEqual(["en", "id"])
+    expect(i18n.t("hi")).toBe("Hello")
+    expect(updated.sort()).toEqual(["en", "id"])
+
+    await i18n.setLocale("id") // fresh cached copy, no wait
+    expect(i18n.t("hi")).toBe("Hai")
+  })
+
+  it("keeps the current dictionary when a refetch fails", async () => {
+    const errors: unknown[] = []
+    let fail = false
+    const i18n = createSolidLokat({
+      initialLocale: "en",
+      initialDict: { hi: "Hi" },
+      loadLocale: async () => {
+        if (fail) throw new Error("offline")
+        return { hi: "Hi" }
+      },
+      dev: { onError: (e) => errors.push(e) },
+    })
+    fail = true
+    expect(await i18n.revalidate("en")).toEqual([])
+    expect(i18n.t("hi")).toBe("Hi")
+    expect(errors).toHaveLength(1)
+    i18n.dispose()
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "bun:test"
+import type { JSX } from "solid-js"
+import { createSolidLokat, type RichComponents, Trans } from "../src/index"
+
+// Flatten rendered output (accessors, arrays, strings) into a string for assertions.
+function text(el: unknown): string {
+  if (typeof el === "function") return text(el())
+  if (Array.isArray(el)) return el.map(text).join("")
+  return el == null ? "" : String(el)
+}
+
+const components: RichComponents = {
+  b: (p) => ["[b]", p.children, "[/b]"] as JSX.Element,
+  link: (p) => ["[a]", p.children, "[/a]"] as JSX.Element,
+  br: () => "[br]",
+}
+
+function setup(dict: Record<string, string>) {
+  return createSolidLokat({
+    initialLocale: "en",
+    initialDict: dict,
+    loadLocale: async () => ({ terms: "Lies unsere <link>AGB</link>" }),
+  })
+}
+
+describe("@lokat/solid rich text", () => {
+  it("maps tag markers to components, including nested and self-closing tags", () => {
+    const i18n = setup({ terms: "Read our <link>terms and <b>privacy</b></link>.<br/>Thanks" })
+    expect(text(i18n.tRich("terms", components))).toBe(
+      "Read our [a]terms and [b]privacy[/b][/a].[br]Thanks",
+    )
+  })
+
+  it("keeps the content of unknown tags and the text of malformed ones", () => {
+    const i18n = setup({ a: "<x>kept</x> </y> <b>open", c: "1 < 2 <b>ok</b>" })
+    expect(text(i18n.tRich("a", components))).toBe("kept </y> <b>open")
+    expect(text(i18n.tRich("c", components))).toBe("1 < 2 [b]ok[/b]")
+  })
+
+  it("renders params as text, never as tags", () => {
+    const i18n = setup({ hi: "Hi <b>{name}</b>" })
+    const name = () => "<link>Ada</link>"
+    expect(text(i18n.tRich("hi", components, { name }))).toBe("Hi [b]<link>Ada</link>[/b]")
+  })
+
+  it("does not resolve components from the prototype chain", () => {
+    const i18n = setup({ a: "<constructor>x</constructor>" })
+    expect(text(i18n.tRich("a", {}))).toBe("x")
+  })
+
+  it("re-renders with the new dictionary after setLocale", async () => {
+    const i18n = setup({ terms: "Read our <link>terms</link>" })
+    expect(text(Trans({ i18n, key: "terms", components }))).toBe("Read our [a]terms[/a]")
+    await i18n.setLocale("de")
+    expect(text(Trans({ i18n, key: "terms", components }))).toBe("Lies unsere [a]AGB[/a]")
+  })
+})
@@ -1,4 +1,5 @@
 import { describe, expect, it } from "bun:test"
+import { type DictionaryVersionError, hashDictionary } from "@lokat/core"
 import { createSolidLokat } from "../src/index"
 
 type Dict = Record<string, string>
@@ -36,3 +37,118 @@ describe("SSR hydration flow (initialDict) with setLocale", () => {
     expect(loc.t("hello")).toBe("Halo")
   })
 })
+
+describe("SSR state transfer (serialize / initialState)", () => {
+  it("hydrates the client cache from the server snapshot without loading", async () => {
+    const server = createSolidLokat({
+      initialLocale: "id",
+      initialDict: { hello: "Halo </script>" },
+      loadLocale: async (l): Promise<Dict> => ({ hello: l === "en" ? "Hello" : "Hola" }),
+    })
+    await server.preload("en")
+    const html = server.serialize()
+    expect(html).not.toContain("</script>")
+
+    const loaded: string[] = []
+    const client = createSolidLokat({
+      initialLocale: "id",
+      initialState: html,
+      loadLocale: async (l: string): Promise<Dict> => {
+        loaded.push(l)
+        return { hello: "Bonjour" }
+      },
+    })
+
+    expect(client.t("hello")).toBe("Halo </script>")
+    await client.setLocale("en")
+    expect(client.t("hello")).toBe("Hello")
+    await client.setLocale("fr")
+    expect(loaded).toEqual(["fr"])
+  })
+
+  it("applies a later hydrate() when no dictionary is applied yet", async () => {
+    const client = createSolidLokat({
+      initialLocale: "en",
+      loadLocale: () => new Promise<Dict>(() => {}),
+    })
+    client.hydrate({ locale: "en", entries: [{ locale: "en", dict: { hello: "Hello" } }] })
+    expect(client.t("hello")).toBe("Hello")
+    expect(() => client.hydrate("[]")).toThrow(TypeError)
+  })
+
+  it("keeps a loaded locale when hydrate() brings another copy of it", async () => {
+    const LOADED: Dict = { a: "loaded-fr" }
+    const client = createSolidLokat({
+      initialLocale: "en",
+      initialDict: { a: "en" },
+      loadLocale: async () => LOADED,
+    })
+    await client.preload("fr")
+    client.hydrate({ locale: "en", entries: [{ locale: "fr", dict: { a: "hydrated" } }] })
+    expect(client.version("fr")).toBe(hashDictionary(LOADED))
+    expect(client.serialize()).toContain("loaded-fr")
+    expect(client.serialize()).not.toContain("hydrated")
+    expect(await client.revalidate("fr")).toEqual([])
+    expect(await client.preload("fr")).toBe(LOADED)
+    await client.setLocale("fr")
+    expect(client.t("a")).toBe("loaded-fr")
+  })
+})
+
+describe("Dictionary versions across server and client", () => {
+  const EN: Dict = { hello: "Hello" }
+
+  it("reports an initialDict that differs from the server's snapshot", () => {
+    const server = createSolidLokat({
+      initialLocale: "en",
+      initialDict: EN,
+      loadLocale: async () => EN,
+    })
+    expect(server.version()).toBe(hashDictionary(EN))
+    const html = server.serialize()
+
+    const errors: Array<[unknown, string]> = []
+    const client = (initialDict: Dict) =>
+      createSolidLokat({
+        initialLocale: "en",
+        initialDict,
+        initialState: html,
+        loadLocale: async () => EN,
+        dev: { onError: (e, l) => errors.push([e, l]) },
+      })
+    client({ hello: "Hello" })
+    expect(errors).toEqual([])
+
+    const stale = client({ hello: "Hi" })
+    expect(stale.t("hello")).toBe("Hi") // still used
+    expect(errors).toHaveLength(1)
+    const [err, locale] = errors[0] as [DictionaryVersionError, string]
+    expect(locale).toBe("en")
+    expect(err).toMatchObject({
+      name: "DictionaryVersionError",
+      expected: hashDictionary(EN),
+      actual: hashDictionary({ hello: "Hi" }),
+    })
+  })
+
+  it("checks initialDict, snapshots and loads against the manifest", async () => {
+    const errors: unknown[] = []
+    const i18n = createSolidLokat({
+      initialLocale: "en",
+      initialDict: { hello: "Old" },
+      initialState: { entries: [{ locale: "de", dict: { hello: "Hallo" } }] },
+      manifest: { en: hashDictionary(EN), de: "rebuilt", id: hashDictionary({ hello: "Halo" }) },
+      loadLocale: async (l: string): Promise<Dict> => (l === "id" ? { hello: "Halo" } : EN),
+      dev: { onError: (e) => errors.push(e) },
+    })
+    expect((errors as DictionaryVersionError[]).map((e) => e.locale)).toEqual(["de", "en"])
+
+    await i18n.setLocale("id")
+    expect(errors).toHaveLength(2)
+    await i18n.setLocale("en")
+    expect(errors).toHaveLength(2)
+    expect(i18n.version()).toBe(hashDictionary(EN))
+    expect(i18n.version("de")).toBe(hashDictionary({ hello: "Hallo" }))
+    expect(i18n.version("fr")).toBeUndefined()
+  })
+})
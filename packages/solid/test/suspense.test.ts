@@ -0,0 +1,89 @@
+import { describe, expect, it } from "bun:test"
+import { createComponent, Suspense } from "solid-js"
+import { renderToStringAsync } from "solid-js/web"
+import { createSolidLokat, type SolidLokatOptions } from "../src/index"
+
+// Async SSR: Suspense boundaries wait for resources before the HTML is produced.
+function render(options: SolidLokatOptions<string>, key: string) {
+  return renderToStringAsync(() => {
+    const i18n = createSolidLokat(options)
+    return createComponent(Suspense, {
+      fallback: "loading",
+      get children() {
+        return i18n.t(key)
+      },
+    })
+  })
+}
+
+describe("@lokat/solid suspense mode", () => {
+  it("suspends SSR until the dictionary for locale() is loaded", async () => {
+    const calls: string[] = []
+    const html = await render(
+      {
+        initialLocale: "en",
+        suspense: true,
+        loadLocale: async (l) => {
+          calls.push(l)
+          await new Promise((r) => setTimeout(r, 5))
+          return { hi: "Hello" }
+        },
+      },
+      "hi",
+    )
+    expect(html).toContain("Hello")
+    expect(calls).toEqual(["en"])
+  })
+
+  it("loads the initial locale once (the resource, no eager load)", async () => {
+    const calls: string[] = []
+    const html = await render(
+      {
+        initialLocale: "en",
+        suspense: true,
+        // Bypass the cache so a second load would call the loader again.
+        dev: { disableCache: true },
+        loadLocale: async (l) => {
+          calls.push(l)
+          return { hi: "Hello" }
+        },
+      },
+      "hi",
+    )
+    expect(html).toContain("Hello")
+    expect(calls).toEqual(["en"])
+  })
+
+  it("renders keys without suspense mode (fire-and-forget load)", async () => {
+    const html = await render(
+      {
+        initialLocale: "en",
+        loadLocale: async () => {
+          await new Promise((r) => setTimeout(r, 5))
+          return { hi: "Hello" }
+        },
+      },
+      "hi",
+    )
+    expect(html).toContain("hi")
+    expect(html).not.toContain("Hello")
+  })
+
+  it("does not refetch a seeded initialDict", async () => {
+    let calls = 0
+    const html = await render(
+      {
+        initialLocale: "en",
+        initialDict: { hi: "Hello" },
+        suspense: true,
+        loadLocale: async () => {
+          calls++
+          return {}
+        },
+      },
+      "hi",
+    )
+    expect(html).toContain("Hello")
+    expect(calls).toBe(0)
+  })
+})